@@ -1,9 +1,26 @@
 #!/bin/bash
 
 # Prompt for configuration
-read -p "Enter API URL (default: http://23.22.63.50:8000/api): " API_URL
+read -p "Enter auth API URL (default: http://23.22.63.50:8000/api): " API_URL
 read -p "Enter domain name (leave empty if none): " DOMAIN_NAME
 read -p "Enter email (for SSL certificate): " EMAIL
+read -s -p "Enter analyst API key: " ANALYST_API_KEY
+echo
+read -s -p "Enter JWT secret (the one the auth backend signs tokens with): " JWT_SECRET
+echo
+
+if [ -z "$ANALYST_API_KEY" ] || [ -z "$JWT_SECRET" ]; then
+  echo "The analyst API key and JWT secret are both required." >&2
+  exit 1
+fi
+
+# S3 holds uploaded documents. These used to be NEXT_PUBLIC_AWS_*; the old
+# names are no longer read. Leave them empty to run without uploads.
+read -p "Enter AWS region (e.g. us-east-1): " AWS_REGION
+read -p "Enter AWS S3 bucket name: " AWS_BUCKET_NAME
+read -p "Enter AWS access key ID: " AWS_ACCESS_KEY_ID
+read -s -p "Enter AWS secret access key: " AWS_SECRET_ACCESS_KEY
+echo
 
 # Set default API URL if not provided
 API_URL=${API_URL:-"http://23.22.63.50:8000/api"}
@@ -15,7 +32,13 @@ export EMAIL
 
 # Create .env.production file
 cat > .env.production << EOL
-NEXT_PUBLIC_API_URL="${API_URL}"
+AUTH_API_URL="${API_URL}"
+ANALYST_API_KEY="${ANALYST_API_KEY}"
+JWT_SECRET="${JWT_SECRET}"
+AWS_REGION="${AWS_REGION}"
+AWS_BUCKET_NAME="${AWS_BUCKET_NAME}"
+AWS_ACCESS_KEY_ID="${AWS_ACCESS_KEY_ID}"
+AWS_SECRET_ACCESS_KEY="${AWS_SECRET_ACCESS_KEY}"
 NODE_ENV="production"
 EOL
 
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { forgotPasswordSchema } from '@/lib/schemas/auth';
+import { authConfig } from '@/lib/server-config';
+
+// Same answer whether or not the address has an account, so the form can't be
+// used to find out who is registered
+const RESET_REQUESTED_MESSAGE = 'If an account uses that email, a reset link is on its way.';
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const validatedData = forgotPasswordSchema.parse(body);
+
+    const response = await fetch(`${authConfig.apiUrl}/auth/forgot-password`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(validatedData),
+    });
+
+    // Unknown addresses come back as 404; anything else is a real failure
+    if (!response.ok && response.status !== 404) {
+      const data = await response.json().catch(() => ({}));
+      return NextResponse.json(
+        { error: data.message || 'Could not send the reset link' },
+        { status: response.status }
+      );
+    }
+
+    return NextResponse.json({ message: RESET_REQUESTED_MESSAGE });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.errors }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,42 +1,26 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-
-const loginSchema = z.object({
-  username: z.string().min(1, 'Username is required'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
-});
-
-const API_URL = 'http://23.22.63.50:8000/api';
+import { loginWithBackend, setSessionCookies } from '@/lib/auth-server';
+import { loginSchema } from '@/lib/schemas/auth';
 
 export async function POST(req: Request) {
   try {
     const body = await req.json();
     const validatedData = loginSchema.parse(body);
 
-    const response = await fetch(`${API_URL}/auth/login`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(validatedData),
-    });
-
-    const data = await response.json();
+    const result = await loginWithBackend(validatedData);
 
-    if (!response.ok) {
+    if (!result.ok) {
       return NextResponse.json(
-        { error: data.message || 'Login failed' },
-        { status: response.status }
+        { error: result.error },
+        { status: result.status }
       );
     }
 
-    // Backend returns { access_token: string }
-    return NextResponse.json({
-      token: data.access_token,
-      user: {
-        username: validatedData.username
-      }
-    });
+    // The tokens only go into HttpOnly cookies
+    const res = NextResponse.json({ user: result.user });
+    setSessionCookies(res, result.accessToken, result.refreshToken);
+    return res;
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.errors }, { status: 400 });
@@ -46,4 +30,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
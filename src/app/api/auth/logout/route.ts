@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookies } from '@/lib/auth-server';
+
+// Ends the session by expiring the HttpOnly cookies (scripts can't delete them)
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  clearSessionCookies(response);
+  return response;
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { fetchUserProfile, getRequestToken, toSessionUser, verifyAccessToken } from '@/lib/auth-server';
+
+// Current user and their profile, from the session cookie. The client can't
+// read the cookie itself, so this is how it finds out whether it is signed in.
+export async function GET(req: Request) {
+  const token = getRequestToken(req);
+  const authenticated = token ? await verifyAccessToken(token) : null;
+
+  if (!token || !authenticated) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const user = await fetchUserProfile(token, toSessionUser(authenticated));
+
+  return NextResponse.json({ user });
+}
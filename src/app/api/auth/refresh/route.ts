@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookies, getRefreshToken, markRefreshed, setSessionCookies } from '@/lib/auth-server';
+import { getSafeRedirectPath } from '@/lib/redirects';
+import { authConfig } from '@/lib/server-config';
+
+type RefreshResult =
+  | { ok: true; accessToken: string; refreshToken?: string }
+  | { ok: false; status: number; error: string };
+
+// Trade the refresh cookie for a new access token
+async function refreshTokens(req: NextRequest): Promise<RefreshResult> {
+  const refreshToken = getRefreshToken(req);
+  if (!refreshToken) {
+    return { ok: false, status: 401, error: 'No refresh token' };
+  }
+
+  const response = await fetch(`${authConfig.apiUrl}/auth/refresh`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ refresh_token: refreshToken }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.access_token) {
+    return { ok: false, status: 401, error: data.message || 'Session expired' };
+  }
+
+  return { ok: true, accessToken: data.access_token, refreshToken: data.refresh_token };
+}
+
+// Used by the client when an API call comes back 401
+export async function POST(req: NextRequest) {
+  try {
+    const result = await refreshTokens(req);
+
+    if (!result.ok) {
+      const res = NextResponse.json({ error: result.error }, { status: result.status });
+      clearSessionCookies(res);
+      return res;
+    }
+
+    const res = NextResponse.json({ success: true });
+    setSessionCookies(res, result.accessToken, result.refreshToken);
+    return res;
+  } catch (error) {
+    console.error('Token refresh failed:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Used by the middleware for page loads: refresh, then carry on to `next`
+// (or to the login page when the session can't be renewed)
+export async function GET(req: NextRequest) {
+  const { origin } = req.nextUrl;
+  const next = getSafeRedirectPath(req.nextUrl.searchParams.get('next'), origin);
+
+  try {
+    const result = await refreshTokens(req);
+
+    if (result.ok) {
+      const res = NextResponse.redirect(new URL(next, origin));
+      setSessionCookies(res, result.accessToken, result.refreshToken);
+      markRefreshed(res);
+      return res;
+    }
+  } catch (error) {
+    console.error('Token refresh failed:', error);
+  }
+
+  const loginUrl = new URL('/login', origin);
+  loginUrl.searchParams.set('next', next);
+  const res = NextResponse.redirect(loginUrl);
+  clearSessionCookies(res);
+  return res;
+}
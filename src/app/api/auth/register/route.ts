@@ -1,20 +1,8 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-
-const registerSchema = z.object({
-  fullname: z.string().min(2, 'Full name must be at least 2 characters'),
-  username: z.string().min(1, 'Username is required'),
-  email: z.string().email('Invalid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
-  phone: z.string().min(10, 'Phone number is required'),
-  dob: z.string().regex(/^\d{2}\/\d{2}\/\d{4}$/, 'Date must be in DD/MM/YYYY format'),
-  confirmPassword: z.string()
-}).refine((data) => data.password === data.confirmPassword, {
-  message: "Passwords don't match",
-  path: ["confirmPassword"],
-});
-
-const API_URL = 'http://23.22.63.50:8000/api';
+import { loginWithBackend, setSessionCookies } from '@/lib/auth-server';
+import { registerSchema } from '@/lib/schemas/auth';
+import { authConfig } from '@/lib/server-config';
 
 export async function POST(req: Request) {
   try {
@@ -23,7 +11,7 @@ export async function POST(req: Request) {
 
     const { confirmPassword, ...dataToSend } = validatedData;
 
-    const response = await fetch(`${API_URL}/auth/register`, {
+    const response = await fetch(`${authConfig.apiUrl}/auth/register`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -40,7 +28,24 @@ export async function POST(req: Request) {
       );
     }
 
-    return NextResponse.json({ message: data.message }, { status: 201 });
+    // The backend doesn't issue tokens on register, so sign the new account in
+    // here. Accounts that must verify their email first can't sign in yet;
+    // the client sends those to the login page with the backend's message.
+    const login = await loginWithBackend({
+      username: validatedData.username,
+      password: validatedData.password,
+    });
+
+    if (!login.ok) {
+      return NextResponse.json(
+        { message: data.message || 'Account created', verificationRequired: login.status === 403 },
+        { status: 201 }
+      );
+    }
+
+    const res = NextResponse.json({ message: data.message, user: login.user }, { status: 201 });
+    setSessionCookies(res, login.accessToken, login.refreshToken);
+    return res;
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.errors }, { status: 400 });
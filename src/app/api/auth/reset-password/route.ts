@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { resetPasswordSchema } from '@/lib/schemas/auth';
+import { authConfig } from '@/lib/server-config';
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { token, password } = resetPasswordSchema.parse(body);
+
+    const response = await fetch(`${authConfig.apiUrl}/auth/reset-password`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token, new_password: password }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: data.message || 'The reset link is invalid or has expired' },
+        { status: response.status }
+      );
+    }
+
+    return NextResponse.json({ message: data.message || 'Password reset' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.errors }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
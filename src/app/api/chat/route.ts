@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { chatRequestSchema, chatResponseSchema } from "@/lib/analyst-client";
+import { analystError, forwardToAnalyst, unauthorized } from "@/lib/analyst-server";
+import { isKeyInScope } from "@/lib/storage-keys";
+
+// Ask the analyst a question. With `stream: true` the answer comes back as
+// server-sent events.
+export async function POST(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const parsed = chatRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return analystError(400, "Invalid request", parsed.error.issues[0]?.message ?? "Invalid chat request");
+  }
+
+  // Only documents the caller can see may be handed to the analyst
+  const foreignKey = parsed.data.file_keys?.find((key) => !isKeyInScope(key, user));
+  if (foreignKey) {
+    return analystError(403, "Forbidden", `No access to ${foreignKey}`);
+  }
+
+  return forwardToAnalyst(request, user, {
+    method: "POST",
+    path: "chat",
+    body: parsed.data,
+    response: chatResponseSchema,
+  });
+}
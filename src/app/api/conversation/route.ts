@@ -0,0 +1,24 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { conversationResponseSchema } from "@/lib/analyst-client";
+import { analystError, forwardToAnalyst, unauthorized } from "@/lib/analyst-server";
+
+// Messages of one of the caller's sessions
+export async function GET(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const sessionId = request.nextUrl.searchParams.get("session_id");
+  if (!sessionId) {
+    return analystError(400, "Invalid request", "session_id is required");
+  }
+
+  return forwardToAnalyst(request, user, {
+    method: "GET",
+    path: "conversation",
+    query: { session_id: sessionId },
+    response: conversationResponseSchema,
+  });
+}
@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { healthResponseSchema } from "@/lib/analyst-client";
+import { forwardToAnalyst, unauthorized } from "@/lib/analyst-server";
+
+export async function GET(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  return forwardToAnalyst(request, user, {
+    method: "GET",
+    path: "health",
+    response: healthResponseSchema,
+  });
+}
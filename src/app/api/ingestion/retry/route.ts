@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { ingestionRetryResponseSchema } from "@/lib/analyst-client";
+import { analystError, forwardToAnalyst, unauthorized } from "@/lib/analyst-server";
+import { isKeyInScope } from "@/lib/storage-keys";
+
+// Queue a document for indexing again after a failure
+export async function POST(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const body = await request.json().catch(() => null);
+  const s3Key = body?.s3_key;
+  if (!isKeyInScope(s3Key, user)) {
+    return analystError(403, "Forbidden", "No access to that document");
+  }
+
+  return forwardToAnalyst(request, user, {
+    method: "POST",
+    path: "ingestion/retry",
+    body: { s3_key: s3Key },
+    response: ingestionRetryResponseSchema,
+  });
+}
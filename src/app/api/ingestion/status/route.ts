@@ -0,0 +1,25 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { ingestionStatusResponseSchema } from "@/lib/analyst-client";
+import { analystError, forwardToAnalyst, unauthorized } from "@/lib/analyst-server";
+import { isKeyInScope } from "@/lib/storage-keys";
+
+// Indexing progress of an uploaded document
+export async function GET(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const s3Key = request.nextUrl.searchParams.get("s3_key");
+  if (!isKeyInScope(s3Key, user)) {
+    return analystError(403, "Forbidden", "No access to that document");
+  }
+
+  return forwardToAnalyst(request, user, {
+    method: "GET",
+    path: "ingestion/status",
+    query: { s3_key: s3Key },
+    response: ingestionStatusResponseSchema,
+  });
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestToken, verifyAccessToken } from '@/lib/auth-server';
+import { changePasswordSchema } from '@/lib/schemas/auth';
+import { authConfig } from '@/lib/server-config';
+
+export async function POST(req: Request) {
+  try {
+    const token = getRequestToken(req);
+    const authenticated = token ? await verifyAccessToken(token) : null;
+
+    if (!token || !authenticated) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { currentPassword, newPassword } = changePasswordSchema.parse(body);
+
+    const response = await fetch(`${authConfig.apiUrl}/auth/change-password`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        current_password: currentPassword,
+        new_password: newPassword,
+      }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      // A wrong current password is a form error, not an expired session; a
+      // 401 here would send the client into the refresh flow
+      const status = response.status === 401 ? 400 : response.status;
+      return NextResponse.json(
+        { error: data.message || 'Password change failed' },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ message: data.message || 'Password changed' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.errors }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestToken, toSessionUser, toUser, verifyAccessToken } from '@/lib/auth-server';
+import { profileSchema } from '@/lib/schemas/auth';
+import { authConfig } from '@/lib/server-config';
+
+// Update the signed-in user's profile. Username and id can't be changed here.
+export async function PUT(req: Request) {
+  try {
+    const token = getRequestToken(req);
+    const authenticated = token ? await verifyAccessToken(token) : null;
+
+    if (!token || !authenticated) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const validatedData = profileSchema.parse(body);
+
+    const response = await fetch(`${authConfig.apiUrl}/auth/me`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(validatedData),
+    });
+
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: data.message || 'Profile update failed' },
+        { status: response.status }
+      );
+    }
+
+    // Older backends answer with a message only; echo back what was saved
+    const user = toUser(data.user ?? data, {
+      ...toSessionUser(authenticated),
+      ...validatedData,
+    });
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.errors }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
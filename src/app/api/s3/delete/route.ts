@@ -1,18 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
-import { S3Client, DeleteObjectCommand } from "@aws-sdk/client-s3";
-import { awsConfig, isAwsConfigValid } from "@/lib/config";
-
-// Initialize S3 client 
-const s3Client = new S3Client({
-  region: awsConfig.region,
-  credentials: {
-    accessKeyId: awsConfig.accessKeyId,
-    secretAccessKey: awsConfig.secretAccessKey,
-  },
-});
+import { DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { awsConfig, isAwsConfigValid } from "@/lib/server-config";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { getMappingKey, s3Client } from "@/lib/s3-client";
+import { isKeyInScope } from "@/lib/storage-keys";
+import { canDeleteDocument } from "@/lib/permissions";
 
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+    
     // Check S3 config
     if (!isAwsConfigValid()) {
       return NextResponse.json(
@@ -32,20 +35,41 @@ export async function DELETE(request: NextRequest) {
       );
     }
     
-    // Delete from S3
-    await s3Client.send(
-      new DeleteObjectCommand({
-        Bucket: awsConfig.bucketName,
-        Key: key,
-      })
+    // Only allow deleting files inside the caller's own (or organization's)
+    // prefix, and only when their role allows it
+    if (!isKeyInScope(key, user)) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+    
+    if (!canDeleteDocument(user, key)) {
+      return NextResponse.json(
+        { error: "Your role doesn't allow deleting this document" },
+        { status: 403 }
+      );
+    }
+    
+    // Delete from S3, along with the column mapping if the file was imported
+    // (deleting a missing key is a no-op)
+    await Promise.all(
+      [key, getMappingKey(key)].map((objectKey) =>
+        s3Client.send(
+          new DeleteObjectCommand({
+            Bucket: awsConfig.bucketName,
+            Key: objectKey,
+          })
+        )
+      )
     );
     
     return NextResponse.json({ success: true });
-  } catch (error: any) {
+  } catch (error) {
     console.error("Error in S3 delete:", error);
     return NextResponse.json(
-      { error: `S3 delete failed: ${error.message}` },
+      { error: `S3 delete failed: ${error instanceof Error ? error.message : "Unknown error"}` },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -1,19 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
-import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
+import { GetObjectCommand } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
-import { awsConfig, isAwsConfigValid } from "@/lib/config";
-
-// Initialize S3 client 
-const s3Client = new S3Client({
-  region: awsConfig.region,
-  credentials: {
-    accessKeyId: awsConfig.accessKeyId,
-    secretAccessKey: awsConfig.secretAccessKey,
-  },
-});
+import { awsConfig, isAwsConfigValid } from "@/lib/server-config";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { s3Client } from "@/lib/s3-client";
+import { isKeyInScope } from "@/lib/storage-keys";
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+    
     // Check S3 config
     if (!isAwsConfigValid()) {
       return NextResponse.json(
@@ -33,6 +35,14 @@ export async function GET(request: NextRequest) {
       );
     }
     
+    // Only sign URLs for files inside the caller's own prefix
+    if (!isKeyInScope(key, user)) {
+      return NextResponse.json(
+        { success: false, error: "Access denied" },
+        { status: 403 }
+      );
+    }
+    
     // Generate signed URL
     const command = new GetObjectCommand({
       Bucket: awsConfig.bucketName,
@@ -42,11 +52,11 @@ export async function GET(request: NextRequest) {
     const signedUrl = await getSignedUrl(s3Client, command, { expiresIn: 3600 });
     
     return NextResponse.json({ success: true, url: signedUrl });
-  } catch (error: any) {
+  } catch (error) {
     console.error("Error generating signed URL:", error);
     return NextResponse.json(
-      { success: false, error: `Failed to generate signed URL: ${error.message}` },
+      { success: false, error: `Failed to generate signed URL: ${error instanceof Error ? error.message : "Unknown error"}` },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
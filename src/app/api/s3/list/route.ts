@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ListObjectsV2Command } from "@aws-sdk/client-s3";
+import { awsConfig, isAwsConfigValid } from "@/lib/server-config";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { MAPPING_SUFFIX, s3Client } from "@/lib/s3-client";
+import { getStoragePrefix } from "@/lib/storage-keys";
+import { getContentTypeForFileName } from "@/lib/upload-validation";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Keys end in "<timestamp>-<original name>" (see storage-keys)
+const getFileNameFromKey = (key: string) =>
+  key.slice(key.lastIndexOf("/") + 1).replace(/^\d{13}-/, "");
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+    
+    // Check S3 config
+    if (!isAwsConfigValid()) {
+      return NextResponse.json(
+        { success: false, error: "AWS S3 configuration is incomplete" },
+        { status: 500 }
+      );
+    }
+    
+    const searchParams = request.nextUrl.searchParams;
+    const continuationToken = searchParams.get("continuationToken") || undefined;
+    const pageSize = Math.min(
+      Number(searchParams.get("pageSize")) || DEFAULT_PAGE_SIZE,
+      MAX_PAGE_SIZE
+    );
+    
+    const { Contents = [], IsTruncated, NextContinuationToken } = await s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: awsConfig.bucketName,
+        Prefix: `${getStoragePrefix(user)}uploads/`,
+        MaxKeys: pageSize,
+        ContinuationToken: continuationToken,
+      })
+    );
+    
+    // Import mapping sidecars are metadata, not files the user uploaded
+    const objects = Contents.filter(
+      (object) => object.Key && !object.Key.endsWith("/") && !object.Key.endsWith(MAPPING_SUFFIX)
+    );
+    
+    // ListObjectsV2 doesn't return content types; the extension tells us
+    // without a HeadObject request per file
+    const files = objects.map((object) => {
+      const key = object.Key!;
+      const name = getFileNameFromKey(key);
+      
+      return {
+        key,
+        name,
+        size: object.Size ?? 0,
+        lastModified: object.LastModified?.toISOString(),
+        contentType: getContentTypeForFileName(name),
+      };
+    });
+    
+    return NextResponse.json({
+      success: true,
+      files,
+      nextContinuationToken: IsTruncated ? NextContinuationToken : null,
+    });
+  } catch (error) {
+    console.error("Error listing S3 files:", error);
+    return NextResponse.json(
+      { success: false, error: `Failed to list files: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 }
+    );
+  }
+}
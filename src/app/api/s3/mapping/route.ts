@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { HeadObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+import { z } from "zod";
+import { awsConfig, isAwsConfigValid } from "@/lib/server-config";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { getMappingKey, s3Client } from "@/lib/s3-client";
+import { isKeyUploadedBy } from "@/lib/storage-keys";
+import { IMPORT_FIELDS, REQUIRED_IMPORT_FIELDS } from "@/lib/types/import-mapping";
+
+const mappedColumnSchema = z.object({
+  column: z.string().max(200),
+  index: z.number().int().min(0),
+  type: z.enum(["date", "number", "currency", "text", "empty"]),
+});
+
+const mappingSchema = z.object({
+  version: z.literal(1),
+  format: z.enum(["csv", "xlsx"]),
+  sheet: z.string().max(200).optional(),
+  headerRow: z.literal(1),
+  fields: z.object(
+    Object.fromEntries(IMPORT_FIELDS.map((field) => [field, mappedColumnSchema.optional()]))
+  ).strict(),
+});
+
+// Saves the column mapping the user confirmed for an imported CSV/XLSX file
+// as a JSON sidecar, so ingestion doesn't have to guess the columns
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Check S3 config
+    if (!isAwsConfigValid()) {
+      return NextResponse.json(
+        { success: false, error: "AWS S3 configuration is incomplete" },
+        { status: 500 }
+      );
+    }
+
+    const { key, mapping } = await request.json();
+
+    if (!isKeyUploadedBy(key, user)) {
+      return NextResponse.json(
+        { success: false, error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const parsed = mappingSchema.safeParse(mapping);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: `Invalid mapping: ${parsed.error.issues[0]?.message}` },
+        { status: 400 }
+      );
+    }
+
+    const missing = REQUIRED_IMPORT_FIELDS.filter((field) => !parsed.data.fields[field]);
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Missing columns for: ${missing.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (!key.toLowerCase().endsWith(`.${parsed.data.format}`)) {
+      return NextResponse.json(
+        { success: false, error: "Mapping format doesn't match the file" },
+        { status: 400 }
+      );
+    }
+
+    // Don't leave sidecars for files that were never stored
+    try {
+      await s3Client.send(new HeadObjectCommand({ Bucket: awsConfig.bucketName, Key: key }));
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "File not found" },
+        { status: 404 }
+      );
+    }
+
+    const mappingKey = getMappingKey(key);
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: awsConfig.bucketName,
+        Key: mappingKey,
+        Body: JSON.stringify({ ...parsed.data, source: key }, null, 2),
+        ContentType: "application/json",
+      })
+    );
+
+    return NextResponse.json({ success: true, key: mappingKey });
+  } catch (error) {
+    console.error("Error saving import mapping:", error);
+    return NextResponse.json(
+      { success: false, error: `Failed to save mapping: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AbortMultipartUploadCommand } from "@aws-sdk/client-s3";
+import { awsConfig, isAwsConfigValid } from "@/lib/server-config";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { s3Client } from "@/lib/s3-client";
+import { isKeyUploadedBy } from "@/lib/storage-keys";
+
+// Cancels a multipart upload and frees the parts already stored in S3
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+    
+    // Check S3 config
+    if (!isAwsConfigValid()) {
+      return NextResponse.json(
+        { success: false, error: "AWS S3 configuration is incomplete" },
+        { status: 500 }
+      );
+    }
+    
+    const { key, uploadId } = await request.json();
+    
+    if (!key || !uploadId) {
+      return NextResponse.json(
+        { success: false, error: "key and uploadId are required" },
+        { status: 400 }
+      );
+    }
+    
+    // Multipart operations are only allowed on keys in the caller's prefix
+    if (!isKeyUploadedBy(key, user)) {
+      return NextResponse.json(
+        { success: false, error: "Access denied" },
+        { status: 403 }
+      );
+    }
+    
+    await s3Client.send(
+      new AbortMultipartUploadCommand({
+        Bucket: awsConfig.bucketName,
+        Key: key,
+        UploadId: uploadId,
+      })
+    );
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error aborting multipart upload:", error);
+    return NextResponse.json(
+      { success: false, error: `Failed to abort upload: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 }
+    );
+  }
+}
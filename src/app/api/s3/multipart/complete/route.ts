@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CompleteMultipartUploadCommand, DeleteObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
+import { uploadConfig } from "@/lib/config";
+import { awsConfig, isAwsConfigValid } from "@/lib/server-config";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { s3Client } from "@/lib/s3-client";
+import { isKeyUploadedBy } from "@/lib/storage-keys";
+import { SNIFF_BYTES, validateUpload } from "@/lib/upload-validation";
+
+// Stitches the uploaded parts together into the final object
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+    
+    // Check S3 config
+    if (!isAwsConfigValid()) {
+      return NextResponse.json(
+        { success: false, error: "AWS S3 configuration is incomplete" },
+        { status: 500 }
+      );
+    }
+    
+    const { key, uploadId, parts } = await request.json();
+    
+    if (!key || !uploadId || !Array.isArray(parts) || parts.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "key, uploadId and parts are required" },
+        { status: 400 }
+      );
+    }
+    
+    // Multipart operations are only allowed on keys in the caller's prefix
+    if (!isKeyUploadedBy(key, user)) {
+      return NextResponse.json(
+        { success: false, error: "Access denied" },
+        { status: 403 }
+      );
+    }
+    
+    await s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: awsConfig.bucketName,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          // S3 requires parts in ascending order
+          Parts: (parts as { partNumber: number; etag: string }[])
+            .map(({ partNumber, etag }) => ({ PartNumber: partNumber, ETag: etag }))
+            .sort((a, b) => a.PartNumber - b.PartNumber),
+        },
+      })
+    );
+    
+    // The browser sent the bytes straight to S3, so check what actually
+    // arrived and discard the object if it isn't what it claims to be
+    const object = await s3Client.send(
+      new GetObjectCommand({
+        Bucket: awsConfig.bucketName,
+        Key: key,
+        Range: `bytes=0-${SNIFF_BYTES - 1}`,
+      })
+    );
+    
+    const head = object.Body ? await object.Body.transformToByteArray() : new Uint8Array();
+    const size = Number(object.ContentRange?.split("/")[1] ?? object.ContentLength ?? 0);
+    
+    const validation = validateUpload({
+      fileName: key,
+      size,
+      maxSize: uploadConfig.maxFileSize,
+      head,
+    });
+    
+    if (!validation.ok) {
+      await s3Client.send(
+        new DeleteObjectCommand({
+          Bucket: awsConfig.bucketName,
+          Key: key,
+        })
+      );
+      
+      return NextResponse.json(
+        { success: false, code: validation.code, error: validation.message },
+        { status: validation.code === "FILE_TOO_LARGE" ? 413 : 422 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, key });
+  } catch (error) {
+    console.error("Error completing multipart upload:", error);
+    return NextResponse.json(
+      { success: false, error: `Failed to complete upload: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CreateMultipartUploadCommand } from "@aws-sdk/client-s3";
+import { uploadConfig } from "@/lib/config";
+import { awsConfig, isAwsConfigValid } from "@/lib/server-config";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { getPartSize, s3Client } from "@/lib/s3-client";
+import { buildUploadKey } from "@/lib/storage-keys";
+import { can } from "@/lib/permissions";
+import { validateUpload } from "@/lib/upload-validation";
+
+// Starts a multipart upload so the browser can send parts straight to S3
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+    
+    if (!can(user, "documents:upload")) {
+      return NextResponse.json(
+        { success: false, error: "Your role doesn't allow uploading documents" },
+        { status: 403 }
+      );
+    }
+    
+    // Check S3 config
+    if (!isAwsConfigValid()) {
+      return NextResponse.json(
+        { success: false, error: "AWS S3 configuration is incomplete" },
+        { status: 500 }
+      );
+    }
+    
+    const { fileName, size } = await request.json();
+    
+    if (typeof fileName !== "string" || typeof size !== "number") {
+      return NextResponse.json(
+        { success: false, error: "fileName and size are required" },
+        { status: 400 }
+      );
+    }
+    
+    // Name, type and size are checked now; the contents are sniffed once the
+    // parts have been assembled (see ../complete)
+    const validation = validateUpload({ fileName, size, maxSize: uploadConfig.maxFileSize });
+    
+    if (!validation.ok) {
+      return NextResponse.json(
+        { success: false, code: validation.code, error: validation.message },
+        { status: validation.code === "FILE_TOO_LARGE" ? 413 : 422 }
+      );
+    }
+    
+    // Create a key for the file inside the caller's prefix
+    const key = buildUploadKey(user, validation.fileName);
+    
+    const { UploadId } = await s3Client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: awsConfig.bucketName,
+        Key: key,
+        ContentType: validation.contentType,
+      })
+    );
+    
+    if (!UploadId) {
+      throw new Error("S3 did not return an upload ID");
+    }
+    
+    const partSize = getPartSize(size);
+    
+    return NextResponse.json({
+      success: true,
+      key,
+      uploadId: UploadId,
+      partSize,
+      partCount: Math.ceil(size / partSize),
+    });
+  } catch (error) {
+    console.error("Error creating multipart upload:", error);
+    return NextResponse.json(
+      { success: false, error: `Failed to start upload: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { UploadPartCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { awsConfig, isAwsConfigValid } from "@/lib/server-config";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { MAX_PARTS, PRESIGNED_URL_EXPIRY_SECONDS, s3Client } from "@/lib/s3-client";
+import { isKeyUploadedBy } from "@/lib/storage-keys";
+
+// Issues presigned PUT URLs for one or more parts of a multipart upload
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+    
+    // Check S3 config
+    if (!isAwsConfigValid()) {
+      return NextResponse.json(
+        { success: false, error: "AWS S3 configuration is incomplete" },
+        { status: 500 }
+      );
+    }
+    
+    const { key, uploadId, partNumbers } = await request.json();
+    
+    const validParts = Array.isArray(partNumbers) && partNumbers.length > 0 && partNumbers.every(
+      (n: unknown) => Number.isInteger(n) && (n as number) >= 1 && (n as number) <= MAX_PARTS
+    );
+    
+    if (!key || !uploadId || !validParts) {
+      return NextResponse.json(
+        { success: false, error: "key, uploadId and partNumbers are required" },
+        { status: 400 }
+      );
+    }
+    
+    // Multipart operations are only allowed on keys in the caller's prefix
+    if (!isKeyUploadedBy(key, user)) {
+      return NextResponse.json(
+        { success: false, error: "Access denied" },
+        { status: 403 }
+      );
+    }
+    
+    const urls = await Promise.all(
+      (partNumbers as number[]).map(async (partNumber) => ({
+        partNumber,
+        url: await getSignedUrl(
+          s3Client,
+          new UploadPartCommand({
+            Bucket: awsConfig.bucketName,
+            Key: key,
+            UploadId: uploadId,
+            PartNumber: partNumber,
+          }),
+          { expiresIn: PRESIGNED_URL_EXPIRY_SECONDS }
+        ),
+      }))
+    );
+    
+    return NextResponse.json({ success: true, urls });
+  } catch (error) {
+    console.error("Error signing upload parts:", error);
+    return NextResponse.json(
+      { success: false, error: `Failed to sign upload parts: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 }
+    );
+  }
+}
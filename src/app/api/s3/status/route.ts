@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { isAwsConfigValid } from "@/lib/server-config";
+
+// Whether S3 is configured, for the upload page's warning. The settings
+// themselves stay on the server.
+export async function GET() {
+  return NextResponse.json({ success: true, configured: isAwsConfigValid() });
+}
@@ -1,18 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { S3Client, PutObjectCommand, DeleteObjectCommand, ListBucketsCommand } from "@aws-sdk/client-s3";
-import { awsConfig, isAwsConfigValid } from "@/lib/config";
-
-// Initialize S3 client 
-const s3Client = new S3Client({
-  region: awsConfig.region,
-  credentials: {
-    accessKeyId: awsConfig.accessKeyId,
-    secretAccessKey: awsConfig.secretAccessKey,
-  },
-});
+import { PutObjectCommand, DeleteObjectCommand, ListBucketsCommand } from "@aws-sdk/client-s3";
+import { awsConfig, isAwsConfigValid } from "@/lib/server-config";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { s3Client } from "@/lib/s3-client";
+import { getStoragePrefix } from "@/lib/storage-keys";
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+    
     // Check S3 config
     if (!isAwsConfigValid()) {
       return NextResponse.json(
@@ -48,7 +50,7 @@ export async function GET(request: NextRequest) {
     }
     
     // Upload a test file
-    const testKey = `test-connection-${Date.now()}.txt`;
+    const testKey = `${getStoragePrefix(user)}test-connection-${Date.now()}.txt`;
     await s3Client.send(
       new PutObjectCommand({
         Bucket: awsConfig.bucketName,
@@ -1,18 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
-import { awsConfig, isAwsConfigValid } from "@/lib/config";
-
-// Initialize S3 client 
-const s3Client = new S3Client({
-  region: awsConfig.region,
-  credentials: {
-    accessKeyId: awsConfig.accessKeyId,
-    secretAccessKey: awsConfig.secretAccessKey,
-  },
-});
+import { PutObjectCommand } from "@aws-sdk/client-s3";
+import { uploadConfig } from "@/lib/config";
+import { awsConfig, isAwsConfigValid } from "@/lib/server-config";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { s3Client } from "@/lib/s3-client";
+import { buildUploadKey } from "@/lib/storage-keys";
+import { can } from "@/lib/permissions";
+import { SNIFF_BYTES, UPLOAD_ERROR_MESSAGES, validateUpload } from "@/lib/upload-validation";
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+    
+    if (!can(user, "documents:upload")) {
+      return NextResponse.json(
+        { error: "Your role doesn't allow uploading documents" },
+        { status: 403 }
+      );
+    }
+    
     // Check S3 config
     if (!isAwsConfigValid()) {
       return NextResponse.json(
@@ -21,6 +33,15 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Reject oversized bodies before buffering them
+    const contentLength = Number(request.headers.get("Content-Length"));
+    if (contentLength > uploadConfig.maxBufferedFileSize + 64 * 1024) {
+      return NextResponse.json(
+        { success: false, code: "FILE_TOO_LARGE", error: UPLOAD_ERROR_MESSAGES.FILE_TOO_LARGE },
+        { status: 413 }
+      );
+    }
+    
     // Get the file data from form data
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
@@ -35,8 +56,23 @@ export async function POST(request: NextRequest) {
     // Convert file to buffer
     const buffer = await file.arrayBuffer();
     
-    // Create a key for the file
-    const key = `uploads/${Date.now()}-${file.name}`;
+    // Check the real contents, not the browser-supplied type and name
+    const validation = validateUpload({
+      fileName: file.name,
+      size: buffer.byteLength,
+      maxSize: uploadConfig.maxBufferedFileSize,
+      head: new Uint8Array(buffer, 0, Math.min(buffer.byteLength, SNIFF_BYTES)),
+    });
+    
+    if (!validation.ok) {
+      return NextResponse.json(
+        { success: false, code: validation.code, error: validation.message },
+        { status: validation.code === "FILE_TOO_LARGE" ? 413 : 422 }
+      );
+    }
+    
+    // Create a key for the file inside the caller's prefix
+    const key = buildUploadKey(user, validation.fileName);
     
     // Upload to S3
     await s3Client.send(
@@ -44,16 +80,16 @@ export async function POST(request: NextRequest) {
         Bucket: awsConfig.bucketName,
         Key: key,
         Body: Buffer.from(buffer),
-        ContentType: file.type,
+        ContentType: validation.contentType,
       })
     );
     
     return NextResponse.json({ success: true, key });
-  } catch (error: any) {
+  } catch (error) {
     console.error("Error in S3 upload:", error);
     return NextResponse.json(
-      { error: `S3 upload failed: ${error.message}` },
+      { error: `S3 upload failed: ${error instanceof Error ? error.message : "Unknown error"}` },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/auth-server";
+import { sessionDeleteResponseSchema, sessionsResponseSchema } from "@/lib/analyst-client";
+import { analystError, forwardToAnalyst, unauthorized } from "@/lib/analyst-server";
+import { can } from "@/lib/permissions";
+
+// The caller's chat sessions
+export async function GET(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  return forwardToAnalyst(request, user, {
+    method: "GET",
+    path: "sessions",
+    response: sessionsResponseSchema,
+  });
+}
+
+export async function DELETE(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  // Deleting chat history is reserved for owners
+  if (!can(user, "sessions:delete")) {
+    return analystError(403, "Forbidden", "Your role doesn't allow deleting sessions");
+  }
+
+  const sessionId = request.nextUrl.searchParams.get("session_id");
+  if (!sessionId) {
+    return analystError(400, "Invalid request", "session_id is required");
+  }
+
+  return forwardToAnalyst(request, user, {
+    method: "DELETE",
+    path: "session",
+    query: { session_id: sessionId },
+    response: sessionDeleteResponseSchema,
+  });
+}
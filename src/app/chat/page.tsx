@@ -1,13 +1,27 @@
 "use client";
 
 import { motion, AnimatePresence } from "framer-motion";
-import { useChatStore } from "@/store/chat-store";
-import type { Conversation, Session } from "@/store/chat-store";
+import { getRequestKey, useChatStore } from "@/store/chat-store";
+import type { Conversation, MessageAttachment, RequestOperation, Session } from "@/store/chat-store";
 import Link from "next/link";
-import { Home, Menu, MessageSquare, Plus, Trash2, ChevronDown, ChevronRight, Settings, RefreshCw, Key, User } from "lucide-react";
-import { useState, useMemo, useRef, useEffect } from "react";
+import { Home, Menu, MessageSquare, Plus, Trash2, ChevronDown, ChevronRight, Settings, RefreshCw, User, Square, AlertTriangle, RotateCcw, Clock, Check, WifiOff } from "lucide-react";
+import { Fragment, useState, useMemo, useRef, useEffect } from "react";
+import { MessageContent, normalizeContent } from "@/components/chat/message-content";
+import { CopyButton } from "@/components/chat/copy-button";
+import { AnalysisPanel } from "@/components/chat/analysis-panel";
+import { AttachmentChips } from "@/components/chat/attachment-chips";
+import { AttachmentPicker } from "@/components/chat/attachment-picker";
+import useFileUpload from "@/lib/hooks/useFileUpload";
+import useIngestionPolling from "@/lib/hooks/useIngestionPolling";
+import useOutbox from "@/lib/hooks/useOutbox";
+import useNow from "@/lib/hooks/useNow";
+import { formatDayLabel, formatMessageTime, isSameDay } from "@/lib/format-time";
+import useAuth from "@/lib/hooks/useAuth";
+import { SessionExpiredDialog } from "@/components/auth/session-expired-dialog";
+import { ErrorToaster } from "@/components/chat/error-toaster";
+import { can } from "@/lib/permissions";
 
-// Helper function to render newlines as <br> tags
+// Helper function to render newlines in plain user messages as <br> tags
 const renderNewlines = (text: string) => {
   return text.split('\\n').map((line, index, array) => (
     <span key={index}>
@@ -17,6 +31,15 @@ const renderNewlines = (text: string) => {
   ));
 };
 
+// Bouncing dots shown while waiting for the assistant
+const TypingIndicator = () => (
+  <div className="flex items-center space-x-2">
+    <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" />
+    <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: "0.2s" }} />
+    <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: "0.4s" }} />
+  </div>
+);
+
 type MonthGroup = {
   month: string;
   conversations: Conversation[];
@@ -27,32 +50,64 @@ export default function ChatPage() {
     conversations,
     sessions,
     currentConversationId,
-    isLoading,
+    files,
+    requests,
+    isStreaming,
+    isOnline,
     isConnected,
     connectionError,
-    apiKey,
-    userId,
-    apiHost,
     sendMessage,
+    retryMessage,
+    stopStreaming,
     startNewConversation,
     setCurrentConversation,
     deleteConversation,
-    setApiKey,
-    setUserId,
-    setApiHost,
     connect,
+    loadSessions,
     loadConversation,
   } = useChatStore();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [showApiSettings, setShowApiSettings] = useState(false);
   const [expandedMonths, setExpandedMonths] = useState<string[]>([]);
+  const [selectedAttachments, setSelectedAttachments] = useState<MessageAttachment[]>([]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
   const messageInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { uploadFiles } = useFileUpload();
+  // Also keeps the store's userId in sync with the logged-in account
+  const { user, isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  // Profile name when the backend has one, the login name otherwise
+  const displayName = user?.fullname || user?.username;
+  const canDeleteSessions = can(user, "sessions:delete");
+
+  // Each part of the page follows its own requests
+  const getRequest = (operation: RequestOperation, sessionId?: string | null) =>
+    requests[getRequestKey(operation, sessionId)];
+  const isConnecting = getRequest("connect")?.status === "pending";
+  const sessionsRequest = getRequest("loadSessions");
+  const conversationRequest = getRequest("loadConversation", currentConversationId);
 
   // Find the current conversation from state
   const currentConversation = useMemo(() => {
     return conversations.find(conv => conv.id === currentConversationId);
   }, [currentConversationId, conversations]);
 
+  useIngestionPolling();
+  useOutbox();
+  const now = useNow();
+
+  // Documents the next question may rely on that the backend can't search yet:
+  // the ones attached to this chat, or any upload when nothing is attached
+  const indexingFiles = useMemo(() => {
+    const relevantKeys = new Set(
+      [...(currentConversation?.attachments ?? []), ...selectedAttachments].map((a) => a.s3Key)
+    );
+    return files.filter((file) =>
+      file.status === "processing" &&
+      (relevantKeys.size === 0 || (file.s3Key && relevantKeys.has(file.s3Key)))
+    );
+  }, [files, currentConversation, selectedAttachments]);
+
   // Effect to load conversation data if it doesn't exist in state
   useEffect(() => {
     let isMounted = true;
@@ -113,6 +168,41 @@ export default function ChatPage() {
     );
   };
 
+  const toggleAttachment = (attachment: MessageAttachment) => {
+    setSelectedAttachments(prev =>
+      prev.some(a => a.s3Key === attachment.s3Key)
+        ? prev.filter(a => a.s3Key !== attachment.s3Key)
+        : [...prev, attachment]
+    );
+  };
+
+  const removeAttachment = (s3Key: string) => {
+    setSelectedAttachments(prev => prev.filter(a => a.s3Key !== s3Key));
+  };
+
+  // Upload files dropped or picked in the composer and attach them right away
+  const attachNewFiles = async (fileList: FileList | null) => {
+    const uploaded = await uploadFiles(fileList);
+    setSelectedAttachments(prev => [
+      ...prev,
+      ...uploaded
+        .filter(file => file.s3Key && !prev.some(a => a.s3Key === file.s3Key))
+        .map(file => ({ s3Key: file.s3Key!, name: file.name })),
+    ]);
+  };
+
+  const handleComposerDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  };
+
+  const handleComposerDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    attachNewFiles(e.dataTransfer.files);
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
@@ -120,12 +210,14 @@ export default function ChatPage() {
     
     if (!message.trim()) return;
     
-    await sendMessage(message);
+    // Clear the input right away; the question is queued if it can't go
+    // out yet and the reply streams in while we wait
+    e.currentTarget.reset();
+    const attachments = selectedAttachments;
+    setSelectedAttachments([]);
     
-    (e.target as HTMLFormElement).reset();
-    if (messageInputRef.current) {
-      messageInputRef.current.focus();
-    }
+    await sendMessage(message, attachments);
+    messageInputRef.current?.focus();
   };
 
   const handleNewChat = () => {
@@ -174,10 +266,14 @@ export default function ChatPage() {
               BizMate Chat 
             </h1>
             {isConnected && (
-              <div className="hidden md:flex items-center gap-2 bg-gray-200 dark:bg-gray-700 px-3 py-1 rounded-md text-xs font-medium text-gray-700 dark:text-gray-300">
+              <Link
+                href="/profile"
+                className="hidden md:flex items-center gap-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 px-3 py-1 rounded-md text-xs font-medium text-gray-700 dark:text-gray-300"
+                title="Your profile"
+              >
                 <User size={12} />
-                <span className="truncate max-w-[150px]">{userId}</span>
-              </div>
+                <span className="truncate max-w-[150px]">{displayName}</span>
+              </Link>
             )}
           </div>
           
@@ -220,44 +316,11 @@ export default function ChatPage() {
               <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">API Connection</h2>
               
               <div className="space-y-4">
-                <div>
-                  <label className="block text-gray-700 dark:text-gray-300 mb-1">API Host</label>
-                  <div className="flex">
-                    <input 
-                      type="text"
-                      value={apiHost}
-                      onChange={(e) => setApiHost(e.target.value)}
-                      className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700"
-                      placeholder="host:port"
-                    />
-                  </div>
-                </div>
-                
-                <div>
-                  <label className="block text-gray-700 dark:text-gray-300 mb-1">API Key</label>
-                  <div className="flex">
-                    <input 
-                      type="password"
-                      value={apiKey}
-                      onChange={(e) => setApiKey(e.target.value)}
-                      className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700"
-                      placeholder="Enter your API key"
-                    />
-                  </div>
-                </div>
-                
-                <div>
-                  <label className="block text-gray-700 dark:text-gray-300 mb-1">User ID</label>
-                  <div className="flex">
-                    <input 
-                      type="text"
-                      value={userId}
-                      onChange={(e) => setUserId(e.target.value)}
-                      className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700"
-                      placeholder="Enter your user ID"
-                    />
-                  </div>
-                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {isConnected
+                    ? "Connected to the analyst API."
+                    : "Connect to the analyst API to load your chat history."}
+                </p>
                 
                 <div className="flex justify-end gap-3 mt-6">
                   <button 
@@ -273,9 +336,9 @@ export default function ChatPage() {
                         : "bg-blue-600 hover:bg-blue-700"
                     } text-white rounded-md`} 
                     onClick={handleConnect}
-                    disabled={isLoading}
+                    disabled={isConnecting || !isAuthenticated}
                   >
-                    {isLoading ? (
+                    {isConnecting ? (
                       <>
                         <RefreshCw size={16} className="animate-spin" />
                         Connecting...
@@ -325,11 +388,7 @@ export default function ChatPage() {
             <div className="p-4 border-b border-gray-700 space-y-2">
               <div className="flex items-center gap-2 text-sm text-gray-300">
                 <User size={14} />
-                <span className="truncate">{userId || "Not connected"}</span>
-              </div>
-              <div className="flex items-center gap-2 text-sm text-gray-300">
-                <Key size={14} />
-                <span className="truncate">{apiKey ? "API Key set" : "No API Key"}</span>
+                <span className="truncate">{displayName || "Not signed in"}</span>
               </div>
               <button
                 onClick={isConnected ? handleNewChat : handleConnect}
@@ -338,12 +397,12 @@ export default function ChatPage() {
                     ? "bg-blue-600 hover:bg-blue-700"
                     : "bg-green-600 hover:bg-green-700"
                 }`}
-                disabled={isLoading}
+                disabled={isConnecting || !isAuthenticated}
               >
-                {isLoading ? (
+                {isConnecting ? (
                   <>
                     <RefreshCw size={16} className="animate-spin" />
-                    {isConnected ? "Creating..." : "Connecting..."}
+                    Connecting...
                   </>
                 ) : isConnected ? (
                   <>
@@ -363,9 +422,20 @@ export default function ChatPage() {
                 <div className="p-4 text-center text-gray-400">
                   Connect to view your sessions
                 </div>
+              ) : sessionsRequest?.status === "error" && sessions.length === 0 ? (
+                <div className="p-4 text-center text-sm text-gray-400 space-y-2">
+                  <p>{sessionsRequest.error}</p>
+                  <button
+                    onClick={() => loadSessions()}
+                    className="inline-flex items-center gap-1 text-gray-200 hover:underline"
+                  >
+                    <RotateCcw size={12} />
+                    Try again
+                  </button>
+                </div>
               ) : sessions.length === 0 ? (
                 <div className="p-4 text-center text-gray-400">
-                  No conversations yet
+                  {sessionsRequest?.status === "pending" ? "Loading conversations..." : "No conversations yet"}
                 </div>
               ) : (
                 <div className="p-4">
@@ -391,33 +461,46 @@ export default function ChatPage() {
                             exit={{ height: 0, opacity: 0 }}
                             className="overflow-hidden mt-1"
                           >
-                            {group.sessions.map((session) => (
-                              <div
-                                key={session.session_id}
-                                className={`group flex items-center gap-3 p-3 ml-4 rounded-lg cursor-pointer mb-2 ${
-                                  currentConversationId === session.session_id
-                                    ? "bg-gray-700"
-                                    : "hover:bg-gray-700/50"
-                                }`}
-                                onClick={() => {
-                                  setCurrentConversation(session.session_id);
-                                  setIsSidebarOpen(false);
-                                }}
-                              >
-                                <MessageSquare size={16} className="shrink-0" />
-                                <span className="flex-1 truncate text-sm">{session.title}</span>
-                                <button
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    deleteConversation(session.session_id);
+                            {group.sessions.map((session) => {
+                              const deleteRequest = getRequest("deleteSession", session.session_id);
+                              const isDeleting = deleteRequest?.status === "pending";
+                              return (
+                                <div
+                                  key={session.session_id}
+                                  className={`group flex items-center gap-3 p-3 ml-4 rounded-lg cursor-pointer mb-2 ${
+                                    currentConversationId === session.session_id
+                                      ? "bg-gray-700"
+                                      : "hover:bg-gray-700/50"
+                                  } ${isDeleting ? "opacity-50" : ""}`}
+                                  onClick={() => {
+                                    setCurrentConversation(session.session_id);
+                                    setIsSidebarOpen(false);
                                   }}
-                                  className="opacity-0 group-hover:opacity-100 p-1 hover:bg-gray-600 rounded"
-                                  aria-label="Delete conversation"
                                 >
-                                  <Trash2 size={14} />
-                                </button>
-                              </div>
-                            ))}
+                                  <MessageSquare size={16} className="shrink-0" />
+                                  <span className="flex-1 truncate text-sm">{session.title}</span>
+                                  {deleteRequest?.status === "error" && (
+                                    <span title={deleteRequest.error}>
+                                      <AlertTriangle size={14} className="text-red-400" />
+                                    </span>
+                                  )}
+                                  {canDeleteSessions && (isDeleting ? (
+                                    <RefreshCw size={14} className="animate-spin" />
+                                  ) : (
+                                    <button
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        deleteConversation(session.session_id);
+                                      }}
+                                      className="opacity-0 group-hover:opacity-100 p-1 hover:bg-gray-600 rounded"
+                                      aria-label="Delete conversation"
+                                    >
+                                      <Trash2 size={14} />
+                                    </button>
+                                  ))}
+                                </div>
+                              );
+                            })}
                           </motion.div>
                         )}
                       </AnimatePresence>
@@ -438,85 +521,248 @@ export default function ChatPage() {
             animate={{ opacity: 1 }}
             className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 min-h-[calc(100vh-12rem)] flex flex-col"
           >
-            {!isConnected ? (
+            {!isAuthLoading && !isAuthenticated ? (
               <div className="flex flex-col items-center justify-center h-full text-center space-y-4">
                 <div className="bg-blue-100 dark:bg-blue-900/30 p-6 rounded-full">
-                  <Settings size={32} className="text-blue-600 dark:text-blue-400" />
+                  <User size={32} className="text-blue-600 dark:text-blue-400" />
                 </div>
-                <h2 className="text-xl font-medium text-gray-800 dark:text-gray-200">Connect to API</h2>
+                <h2 className="text-xl font-medium text-gray-800 dark:text-gray-200">Sign in to chat</h2>
                 <p className="text-gray-500 dark:text-gray-400 max-w-md">
-                  Configure your API key and user ID to start chatting.
+                  Your conversations and documents are tied to your account.
                 </p>
-                <button
-                  onClick={() => setShowApiSettings(true)}
-                  className={`mt-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700`}
-                  aria-label="Configure API Connection"
+                <Link
+                  href="/login"
+                  className="mt-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
                 >
-                  Configure API
-                </button>
+                  Log in
+                </Link>
               </div>
             ) : (
               <>
+                {currentConversation && currentConversation.attachments.length > 0 && (
+                  <div className="flex items-center gap-2 pb-3 mb-3 border-b border-gray-200 dark:border-gray-700">
+                    <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">Documents in this chat:</span>
+                    <AttachmentChips attachments={currentConversation.attachments} />
+                  </div>
+                )}
                 <div className="flex-1 overflow-y-auto mb-4 space-y-4">
                   {!currentConversation?.messages.length ? (
-                    <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400">
-                      Start a conversation by sending a message
-                    </div>
+                    !conversationRequest && (
+                      <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400">
+                        Start a conversation by sending a message
+                      </div>
+                    )
                   ) : (
-                    currentConversation.messages.map((message, index) => (
-                      <motion.div
-                        key={`${currentConversation.id}-${index}`}
-                        initial={{ opacity: 0, x: message.role === "user" ? 20 : -20 }}
-                        animate={{ opacity: 1, x: 0 }}
-                        className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
-                      >
-                        <div
-                          className={`max-w-[80%] rounded-lg p-4 ${
-                            message.role === "user"
-                              ? "bg-blue-600 text-white"
-                              : "bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-white"
-                          } whitespace-pre-wrap`}
-                        >
-                          {renderNewlines(message.content)}
-                        </div>
-                      </motion.div>
-                    ))
+                    currentConversation.messages.map((message, index) => {
+                      const previous = currentConversation.messages[index - 1];
+                      const startsDay = !previous || !isSameDay(previous.timestamp, message.timestamp);
+                      return (
+                        <Fragment key={message.id}>
+                          {startsDay && (
+                            <div className="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+                              <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+                              <span>{formatDayLabel(message.timestamp, now)}</span>
+                              <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+                            </div>
+                          )}
+                          <motion.div
+                            initial={{ opacity: 0, x: message.role === "user" ? 20 : -20 }}
+                            animate={{ opacity: 1, x: 0 }}
+                            className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
+                          >
+                            <div
+                              className={`group max-w-[80%] rounded-lg p-4 ${
+                                message.role === "user"
+                                  ? "bg-blue-600 text-white whitespace-pre-wrap"
+                                  : `bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-white min-w-0 ${message.analysis ? "w-full" : ""}`
+                              }`}
+                            >
+                              {message.isStreaming && !message.content ? (
+                                <TypingIndicator />
+                              ) : message.role === "assistant" ? (
+                                <MessageContent content={message.content} />
+                              ) : (
+                                renderNewlines(message.content)
+                              )}
+                              {message.attachments && (
+                                <div className="mt-2">
+                                  <AttachmentChips attachments={message.attachments} variant="message" />
+                                </div>
+                              )}
+                              {!message.isStreaming && (
+                                <div
+                                  className={`flex items-center justify-end gap-1 mt-1 text-xs ${
+                                    message.role === "user" ? "text-blue-100" : "text-gray-500 dark:text-gray-400"
+                                  }`}
+                                >
+                                  <time dateTime={message.timestamp.toISOString()} title={message.timestamp.toLocaleString()}>
+                                    {formatMessageTime(message.timestamp, now)}
+                                  </time>
+                                  {message.status === "queued" && (
+                                    <>
+                                      <Clock size={12} />
+                                      Queued
+                                    </>
+                                  )}
+                                  {message.status === "sending" && (
+                                    <>
+                                      <RefreshCw size={12} className="animate-spin" />
+                                      Sending
+                                    </>
+                                  )}
+                                  {message.status === "sent" && (
+                                    <span title="Sent">
+                                      <Check size={12} />
+                                    </span>
+                                  )}
+                                </div>
+                              )}
+                              {message.status === "failed" && message.error && (
+                                <div className="flex items-center gap-2 mt-2 pt-2 border-t border-white/20 text-xs text-blue-100 whitespace-normal">
+                                  <AlertTriangle size={12} className="shrink-0" />
+                                  <span className="flex-1">Failed &mdash; {message.error}</span>
+                                  <button
+                                    type="button"
+                                    onClick={() => retryMessage(message.id)}
+                                    className="flex items-center gap-1 font-medium text-white hover:underline disabled:opacity-50"
+                                  >
+                                    <RotateCcw size={12} />
+                                    Retry
+                                  </button>
+                                </div>
+                              )}
+                              {message.isStreaming && message.content && (
+                                <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse" />
+                              )}
+                              {message.analysis && !message.isStreaming && (
+                                <AnalysisPanel analysis={message.analysis} />
+                              )}
+                              {message.role === "assistant" && !message.isStreaming && message.content && (
+                                <div className="flex justify-end mt-2 -mb-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                  <CopyButton text={normalizeContent(message.content)} label="Copy message" />
+                                </div>
+                              )}
+                            </div>
+                          </motion.div>
+                        </Fragment>
+                      );
+                    })
                   )}
-                  {isLoading && (
+                  {conversationRequest?.status === "pending" && (
                     <div className="flex justify-start">
                       <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4">
-                        <div className="flex items-center space-x-2">
-                          <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" />
-                          <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: "0.2s" }} />
-                          <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: "0.4s" }} />
-                        </div>
+                        <TypingIndicator />
                       </div>
                     </div>
                   )}
+                  {conversationRequest?.status === "error" && currentConversationId && (
+                    <div className="flex items-center justify-center gap-2 text-sm text-red-600 dark:text-red-400">
+                      <AlertTriangle size={14} className="shrink-0" />
+                      <span>{conversationRequest.error}</span>
+                      <button
+                        onClick={() => loadConversation(currentConversationId)}
+                        className="flex items-center gap-1 font-medium hover:underline"
+                      >
+                        <RotateCcw size={12} />
+                        Try again
+                      </button>
+                    </div>
+                  )}
                 </div>
 
-                <form onSubmit={handleSubmit} className="flex gap-2">
-                  <input
-                    ref={messageInputRef}
-                    type="text"
-                    name="message"
-                    className="flex-1 px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder="Type your message..."
-                    disabled={!isConnected || isLoading}
-                  />
-                  <button
-                    type="submit"
-                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                    disabled={!isConnected || isLoading}
-                  >
-                    Send
-                  </button>
+                <form
+                  onSubmit={handleSubmit}
+                  onDragOver={handleComposerDragOver}
+                  onDragLeave={() => setIsDraggingFile(false)}
+                  onDrop={handleComposerDrop}
+                  className={`space-y-2 rounded-lg ${
+                    isDraggingFile ? "ring-2 ring-blue-500 ring-offset-4 dark:ring-offset-gray-800" : ""
+                  }`}
+                >
+                  {!isOnline ? (
+                    <div className="flex items-start gap-2 rounded-md bg-gray-100 dark:bg-gray-700 px-3 py-2 text-xs text-gray-700 dark:text-gray-200">
+                      <WifiOff size={14} className="shrink-0 mt-0.5" />
+                      <span>You&apos;re offline. Messages are queued and sent when the connection is back.</span>
+                    </div>
+                  ) : !isConnected && (
+                    <div className="flex items-center gap-2 rounded-md bg-gray-100 dark:bg-gray-700 px-3 py-2 text-xs text-gray-700 dark:text-gray-200">
+                      <Settings size={14} className="shrink-0" />
+                      <span className="flex-1">
+                        Not connected to the analyst API. Messages are queued and sent once you connect.
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setShowApiSettings(true)}
+                        className="shrink-0 font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Connect
+                      </button>
+                    </div>
+                  )}
+                  {indexingFiles.length > 0 && (
+                    <div className="flex items-start gap-2 rounded-md bg-yellow-50 dark:bg-yellow-900/30 px-3 py-2 text-xs text-yellow-800 dark:text-yellow-200">
+                      <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                      <span>
+                        Still indexing {indexingFiles.map((file) => file.name).join(", ")}. Answers
+                        won&apos;t include {indexingFiles.length === 1 ? "this document" : "these documents"} until
+                        indexing finishes.
+                      </span>
+                    </div>
+                  )}
+                  <AttachmentChips attachments={selectedAttachments} onRemove={removeAttachment} />
+                  <div className="flex gap-2">
+                    <AttachmentPicker
+                      selected={selectedAttachments}
+                      onToggle={toggleAttachment}
+                      onUploadClick={() => fileInputRef.current?.click()}
+                      disabled={!isConnected}
+                    />
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      multiple
+                      accept=".pdf,.png,.jpg,.jpeg,.gif,.webp,.csv,.xlsx"
+                      className="hidden"
+                      onChange={(e) => {
+                        attachNewFiles(e.target.files);
+                        e.target.value = "";
+                      }}
+                    />
+                    <input
+                      ref={messageInputRef}
+                      type="text"
+                      name="message"
+                      className="flex-1 px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Type your message..."
+                    />
+                    {isStreaming ? (
+                      <button
+                        type="button"
+                        onClick={stopStreaming}
+                        className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+                        aria-label="Stop generating"
+                      >
+                        <Square size={14} className="fill-current" />
+                        Stop
+                      </button>
+                    ) : (
+                      <button
+                        type="submit"
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                      >
+                        Send
+                      </button>
+                    )}
+                  </div>
                 </form>
               </>
             )}
           </motion.div>
         </div>
       </div>
+
+      <SessionExpiredDialog />
+      <ErrorToaster />
     </div>
   );
 } 
\ No newline at end of file
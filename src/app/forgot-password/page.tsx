@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import Link from 'next/link';
+import useAuth from '@/lib/hooks/useAuth';
+import { forgotPasswordSchema, type ForgotPasswordFormData } from '@/lib/schemas/auth';
+
+export default function ForgotPasswordPage() {
+  const { requestPasswordReset } = useAuth();
+  const [error, setError] = useState('');
+  const [sentMessage, setSentMessage] = useState('');
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    setError('');
+    const result = await requestPasswordReset(data);
+    if (result.success) {
+      setSentMessage(result.message || 'Check your email for a reset link.');
+    } else {
+      setError(result.error || 'Could not send the reset link');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900 dark:text-white">
+            Reset your password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600 dark:text-gray-400">
+            Enter the email address on your account and we&apos;ll send you a link to choose a new password.
+          </p>
+        </div>
+
+        {sentMessage ? (
+          <div className="rounded-md bg-green-50 dark:bg-green-900/50 p-4">
+            <div className="text-sm text-green-700 dark:text-green-200">{sentMessage}</div>
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            {error && (
+              <div className="rounded-md bg-red-50 dark:bg-red-900/50 p-4">
+                <div className="text-sm text-red-700 dark:text-red-200">{error}</div>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="email" className="sr-only">
+                Email address
+              </label>
+              <input
+                {...register('email')}
+                id="email"
+                type="email"
+                autoComplete="email"
+                className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                placeholder="john@example.com"
+              />
+              {errors.email && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.email.message}</p>
+              )}
+            </div>
+
+            <div>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 dark:bg-indigo-500 dark:hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Sending...' : 'Send reset link'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+          <Link href="/login" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
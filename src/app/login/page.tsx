@@ -1,24 +1,37 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import useAuth from '@/lib/hooks/useAuth';
+import { loginSchema, type LoginFormData } from '@/lib/schemas/auth';
+import { getSafeRedirectPath } from '@/lib/redirects';
 
-const loginSchema = z.object({
-  username: z.string().min(1, 'Username is required'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
-});
+// Where to go after signing in: the page the middleware sent us from, as long
+// as it's a path on this site
+const getRedirectTarget = () =>
+  getSafeRedirectPath(new URLSearchParams(window.location.search).get('next'), window.location.origin);
 
-type LoginFormData = z.infer<typeof loginSchema>;
+// Set by the pages that send people back here to sign in
+const NOTICES: Record<string, string> = {
+  registered: 'Account created. Sign in to get started.',
+  'verify-email': 'Account created. Check your email for a link to verify your address, then sign in.',
+  'email-verified': 'Your email address is verified. You can sign in now.',
+  'password-reset': 'Your password has been reset. Sign in with the new one.',
+};
 
 export default function LoginPage() {
   const router = useRouter();
   const { login } = useAuth();
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    const key = new URLSearchParams(window.location.search).get('notice');
+    setNotice(key ? NOTICES[key] ?? '' : '');
+  }, []);
   
   const {
     register,
@@ -32,7 +45,7 @@ export default function LoginPage() {
     try {
       const result = await login(data);
       if (result.success) {
-        router.push('/dashboard');
+        router.push(getRedirectTarget());
       } else {
         setError(result.error || 'Login failed');
       }
@@ -57,6 +70,12 @@ export default function LoginPage() {
         </div>
         
         <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+          {notice && !error && (
+            <div className="rounded-md bg-green-50 dark:bg-green-900/50 p-4">
+              <div className="text-sm text-green-700 dark:text-green-200">{notice}</div>
+            </div>
+          )}
+
           {error && (
             <div className="rounded-md bg-red-50 dark:bg-red-900/50 p-4">
               <div className="text-sm text-red-700 dark:text-red-200">{error}</div>
@@ -99,6 +118,12 @@ export default function LoginPage() {
             </div>
           </div>
 
+          <div className="flex justify-end text-sm">
+            <Link href="/forgot-password" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300">
+              Forgot your password?
+            </Link>
+          </div>
+
           <div>
             <button
               type="submit"
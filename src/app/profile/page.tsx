@@ -0,0 +1,268 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import useAuth from '@/lib/hooks/useAuth';
+import {
+  changePasswordSchema,
+  profileSchema,
+  type ChangePasswordFormData,
+  type ProfileFormData,
+} from '@/lib/schemas/auth';
+import { getRole, ROLE_LABELS } from '@/lib/permissions';
+import { SessionExpiredDialog } from '@/components/auth/session-expired-dialog';
+
+const inputClassName =
+  'mt-1 appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300';
+
+const buttonClassName =
+  'flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 dark:bg-indigo-500 dark:hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed';
+
+type FormStatus = { type: 'success' | 'error'; message: string } | null;
+
+function StatusMessage({ status }: { status: FormStatus }) {
+  if (!status) return null;
+
+  return (
+    <div
+      className={
+        status.type === 'success'
+          ? 'rounded-md bg-green-50 dark:bg-green-900/50 p-4 text-sm text-green-700 dark:text-green-200'
+          : 'rounded-md bg-red-50 dark:bg-red-900/50 p-4 text-sm text-red-700 dark:text-red-200'
+      }
+    >
+      {status.message}
+    </div>
+  );
+}
+
+export default function ProfilePage() {
+  const { user, isLoading, updateProfile, changePassword } = useAuth();
+  const [profileStatus, setProfileStatus] = useState<FormStatus>(null);
+  const [passwordStatus, setPasswordStatus] = useState<FormStatus>(null);
+
+  const profileForm = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+  });
+
+  const passwordForm = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+  });
+
+  const { reset: resetProfile } = profileForm;
+
+  // Fill the form once the profile has loaded
+  useEffect(() => {
+    if (!user) return;
+    resetProfile({
+      fullname: user.fullname ?? '',
+      email: user.email ?? '',
+      phone: user.phone ?? '',
+      dob: user.dob ?? '',
+    });
+  }, [user, resetProfile]);
+
+  const onSaveProfile = async (data: ProfileFormData) => {
+    setProfileStatus(null);
+    const result = await updateProfile(data);
+    setProfileStatus(
+      result.success
+        ? { type: 'success', message: 'Profile saved' }
+        : { type: 'error', message: result.error || 'Profile update failed' }
+    );
+  };
+
+  const onChangePassword = async (data: ChangePasswordFormData) => {
+    setPasswordStatus(null);
+    const result = await changePassword(data);
+    if (result.success) {
+      passwordForm.reset();
+      setPasswordStatus({ type: 'success', message: 'Password changed' });
+    } else {
+      setPasswordStatus({ type: 'error', message: result.error || 'Password change failed' });
+    }
+  };
+
+  const profileErrors = profileForm.formState.errors;
+  const passwordErrors = passwordForm.formState.errors;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md mx-auto space-y-8">
+        <div>
+          <Link
+            href="/chat"
+            className="inline-flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+          >
+            <ArrowLeft size={16} />
+            Back to chat
+          </Link>
+          <h2 className="mt-6 text-3xl font-extrabold text-gray-900 dark:text-white">
+            Your profile
+          </h2>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            {isLoading || !user ? 'Loading...' : `Signed in as ${user.username}`}
+          </p>
+          {user && (
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+              {ROLE_LABELS[getRole(user)]}
+              {user.organizationName && ` at ${user.organizationName}`}
+            </p>
+          )}
+        </div>
+
+        <form className="space-y-4" onSubmit={profileForm.handleSubmit(onSaveProfile)}>
+          <StatusMessage status={profileStatus} />
+
+          <div>
+            <label htmlFor="fullname" className={labelClassName}>
+              Full Name
+            </label>
+            <input
+              {...profileForm.register('fullname')}
+              id="fullname"
+              type="text"
+              className={inputClassName}
+              placeholder="John Doe"
+            />
+            {profileErrors.fullname && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{profileErrors.fullname.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="email" className={labelClassName}>
+              Email address
+            </label>
+            <input
+              {...profileForm.register('email')}
+              id="email"
+              type="email"
+              autoComplete="email"
+              className={inputClassName}
+              placeholder="john@example.com"
+            />
+            {profileErrors.email && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{profileErrors.email.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="phone" className={labelClassName}>
+              Phone Number
+            </label>
+            <input
+              {...profileForm.register('phone')}
+              id="phone"
+              type="tel"
+              className={inputClassName}
+              placeholder="1234567890"
+            />
+            {profileErrors.phone && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{profileErrors.phone.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="dob" className={labelClassName}>
+              Date of Birth
+            </label>
+            <input
+              {...profileForm.register('dob')}
+              id="dob"
+              type="text"
+              className={inputClassName}
+              placeholder="DD/MM/YYYY"
+            />
+            {profileErrors.dob && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{profileErrors.dob.message}</p>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isLoading || profileForm.formState.isSubmitting}
+            className={buttonClassName}
+          >
+            {profileForm.formState.isSubmitting ? 'Saving...' : 'Save profile'}
+          </button>
+        </form>
+
+        <form
+          className="space-y-4 pt-8 border-t border-gray-200 dark:border-gray-700"
+          onSubmit={passwordForm.handleSubmit(onChangePassword)}
+        >
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Change password</h3>
+
+          <StatusMessage status={passwordStatus} />
+
+          <div>
+            <label htmlFor="currentPassword" className={labelClassName}>
+              Current Password
+            </label>
+            <input
+              {...passwordForm.register('currentPassword')}
+              id="currentPassword"
+              type="password"
+              autoComplete="current-password"
+              className={inputClassName}
+              placeholder="••••••••"
+            />
+            {passwordErrors.currentPassword && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{passwordErrors.currentPassword.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="newPassword" className={labelClassName}>
+              New Password
+            </label>
+            <input
+              {...passwordForm.register('newPassword')}
+              id="newPassword"
+              type="password"
+              autoComplete="new-password"
+              className={inputClassName}
+              placeholder="••••••••"
+            />
+            {passwordErrors.newPassword && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{passwordErrors.newPassword.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="confirmPassword" className={labelClassName}>
+              Confirm New Password
+            </label>
+            <input
+              {...passwordForm.register('confirmPassword')}
+              id="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              className={inputClassName}
+              placeholder="••••••••"
+            />
+            {passwordErrors.confirmPassword && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{passwordErrors.confirmPassword.message}</p>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={passwordForm.formState.isSubmitting}
+            className={buttonClassName}
+          >
+            {passwordForm.formState.isSubmitting ? 'Changing...' : 'Change password'}
+          </button>
+        </form>
+      </div>
+
+      <SessionExpiredDialog />
+    </div>
+  );
+}
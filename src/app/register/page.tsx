@@ -3,25 +3,10 @@
 import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import useAuth from '@/lib/hooks/useAuth';
-
-const registerSchema = z.object({
-  fullname: z.string().min(2, 'Full name must be at least 2 characters'),
-  username: z.string().min(1, 'Username is required'),
-  email: z.string().email('Invalid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
-  confirmPassword: z.string(),
-  phone: z.string().min(10, 'Phone number is required'),
-  dob: z.string().regex(/^\d{2}\/\d{2}\/\d{4}$/, 'Date must be in DD/MM/YYYY format'),
-}).refine((data) => data.password === data.confirmPassword, {
-  message: "Passwords don't match",
-  path: ["confirmPassword"],
-});
-
-type RegisterFormData = z.infer<typeof registerSchema>;
+import { registerSchema, type RegisterFormData } from '@/lib/schemas/auth';
 
 export default function RegisterPage() {
   const router = useRouter();
@@ -40,7 +25,12 @@ export default function RegisterPage() {
     try {
       const result = await registerUser(data);
       if (result.success) {
-        router.push('/login');
+        // Signed in already, unless the account has to verify its email first
+        if (result.signedIn) {
+          router.push('/chat');
+        } else {
+          router.push(result.verificationRequired ? '/login?notice=verify-email' : '/login?notice=registered');
+        }
       } else {
         setError(result.error || 'Registration failed');
       }
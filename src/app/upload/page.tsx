@@ -2,16 +2,53 @@
 
 import { motion } from "framer-motion";
 import { useChatStore } from "@/store/chat-store";
-import { uploadToS3, deleteFromS3, getSignedFileUrl } from "@/lib/s3-utils";
-import { v4 as uuidv4 } from "uuid";
+import { uploadToS3, deleteFromS3, getSignedFileUrl, isS3Configured } from "@/lib/s3-utils";
 import Link from "next/link";
-import { useState, useEffect } from "react";
-import { Home, AlertTriangle } from "lucide-react";
+import { useState, useEffect, useMemo } from "react";
+import { Home, AlertTriangle, Pause, Play, RotateCcw, RefreshCw } from "lucide-react";
 import { Dialog } from '@headlessui/react';
-import { isAwsConfigValid } from "@/lib/config";
+import { uploadConfig } from "@/lib/config";
+import useFileUpload from "@/lib/hooks/useFileUpload";
+import useIngestionPolling from "@/lib/hooks/useIngestionPolling";
+import useAuth from "@/lib/hooks/useAuth";
+import type { UploadErrorCode } from "@/lib/upload-validation";
+import { getTabularFormat } from "@/lib/tabular-import";
+import type { ImportMapping } from "@/lib/types/import-mapping";
+import { ImportPreviewDialog } from "@/components/upload/import-preview-dialog";
+import { SessionExpiredDialog } from "@/components/auth/session-expired-dialog";
+import { ErrorToaster } from "@/components/chat/error-toaster";
+import { can, canDeleteDocument } from "@/lib/permissions";
+
+type SortKey = "date-desc" | "date-asc" | "name-asc" | "name-desc" | "size-desc" | "size-asc";
+
+const formatFileSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / 1024).toFixed(2)} KB`;
+};
+
+const ACCEPTED_FILE_TYPES = ".pdf,.png,.jpg,.jpeg,.gif,.webp,.csv,.xlsx";
+
+// What the user can do about each server-side rejection
+const UPLOAD_ERROR_HINTS: Record<UploadErrorCode, string> = {
+  UNSUPPORTED_TYPE: "Upload a PDF, image, CSV or Excel (.xlsx) file instead.",
+  CONTENT_MISMATCH: "The file may be corrupted or renamed. Export it again and re-upload.",
+  FILE_TOO_LARGE: `Split the file into parts under ${formatFileSize(uploadConfig.maxFileSize)}.`,
+  EMPTY_FILE: "The file has no content. Check the export and try again.",
+  INVALID_NAME: "Rename the file using letters, numbers, dashes or underscores.",
+};
 
 export default function UploadPage() {
-  const { files, addFile, updateFile, removeFile } = useChatStore();
+  const {
+    files,
+    filesContinuationToken,
+    isLoadingFiles,
+    filesError,
+    removeFile,
+    reportError,
+    loadFiles,
+    retryIngestion,
+  } = useChatStore();
+  const { uploadFiles, uploadImport, pauseUpload, resumeUpload, cancelUpload, canResume } = useFileUpload();
   const [isDragging, setIsDragging] = useState(false);
   const [fileToDelete, setFileToDelete] = useState<{ id: string; name: string; s3Key?: string } | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
@@ -20,13 +57,55 @@ export default function UploadPage() {
     message: string;
   }>({ isValid: true, message: "" });
   const [testingConnection, setTestingConnection] = useState(false);
+  const [filterText, setFilterText] = useState("");
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [sortKey, setSortKey] = useState<SortKey>("date-desc");
+  // Spreadsheets waiting for the user to confirm their column mapping
+  const [importQueue, setImportQueue] = useState<File[]>([]);
 
-  // Check S3 configuration on component mount
+  // Restore the list of documents already in the bucket
   useEffect(() => {
-    const awsValid = isAwsConfigValid();
-    setConfigStatus({
-      isValid: awsValid,
-      message: awsValid ? "" : "S3 configuration is incomplete. File uploads will fail."
+    loadFiles();
+  }, [loadFiles]);
+
+  // Keeps the store's userId in sync with the logged-in account, which the
+  // ingestion status requests need
+  const { user } = useAuth();
+  useIngestionPolling();
+
+  const contentTypes = useMemo(
+    () => Array.from(new Set(files.map((file) => file.contentType).filter(Boolean) as string[])).sort(),
+    [files]
+  );
+
+  const visibleFiles = useMemo(() => {
+    const query = filterText.trim().toLowerCase();
+    const [field, direction] = sortKey.split("-") as [string, "asc" | "desc"];
+
+    return files
+      .filter((file) => !query || file.name.toLowerCase().includes(query))
+      .filter((file) => typeFilter === "all" || file.contentType === typeFilter)
+      .sort((a, b) => {
+        let result = 0;
+        if (field === "name") result = a.name.localeCompare(b.name);
+        if (field === "size") result = a.size - b.size;
+        // Files uploaded in this tab have no date yet; treat them as newest
+        if (field === "date") {
+          const timeA = a.uploadedAt ? new Date(a.uploadedAt).getTime() : Date.now();
+          const timeB = b.uploadedAt ? new Date(b.uploadedAt).getTime() : Date.now();
+          result = timeA - timeB;
+        }
+        return direction === "asc" ? result : -result;
+      });
+  }, [files, filterText, typeFilter, sortKey]);
+
+  // Check S3 configuration on component mount; only the server knows it
+  useEffect(() => {
+    isS3Configured().then((awsValid) => {
+      setConfigStatus({
+        isValid: awsValid,
+        message: awsValid ? "" : "S3 configuration is incomplete. File uploads will fail."
+      });
     });
   }, []);
 
@@ -34,9 +113,9 @@ export default function UploadPage() {
   const testS3Connection = async () => {
     setTestingConnection(true);
     try {
-      // Create a tiny test file
-      const testBlob = new Blob(["test"], { type: "text/plain" });
-      const testFile = new File([testBlob], "connection-test.txt", { type: "text/plain" });
+      // Create a tiny test file (CSV, so it passes upload validation)
+      const testBlob = new Blob(["test\n"], { type: "text/csv" });
+      const testFile = new File([testBlob], "connection-test.csv", { type: "text/csv" });
       
       // Try to upload it
       const s3Key = await uploadToS3(testFile);
@@ -48,11 +127,11 @@ export default function UploadPage() {
         isValid: true,
         message: "S3 connection test successful!"
       });
-    } catch (error: any) {
+    } catch (error) {
       console.error("S3 connection test failed:", error);
       setConfigStatus({
         isValid: false,
-        message: `S3 connection failed: ${error.message}`
+        message: `S3 connection failed: ${error instanceof Error ? error.message : "Unknown error"}`
       });
     } finally {
       setTestingConnection(false);
@@ -62,47 +141,23 @@ export default function UploadPage() {
   const handleFileUpload = async (uploadedFiles: FileList | null) => {
     if (!uploadedFiles) return;
 
-    const newFiles = Array.from(uploadedFiles);
-    for (const file of newFiles) {
-      const fileId = uuidv4();
-      // Add file to store with uploading status
-      addFile({
-        id: fileId,
-        name: file.name,
-        size: file.size,
-        status: "uploading",
-      });
+    // CSV/XLSX exports go through the mapping preview first
+    const selected = Array.from(uploadedFiles);
+    const spreadsheets = selected.filter((file) => getTabularFormat(file.name));
+    if (spreadsheets.length > 0) {
+      setImportQueue((queue) => [...queue, ...spreadsheets]);
+    }
 
-      try {
-        // Check file size
-        if (file.size > 10 * 1024 * 1024) { // 10MB limit
-          throw new Error("File too large. Maximum size is 10MB.");
-        }
+    await uploadFiles(selected.filter((file) => !getTabularFormat(file.name)));
+  };
 
-        console.log(`Attempting to upload file: ${file.name} (${file.size} bytes)`);
-        
-        // Upload to S3
-        const s3Key = await uploadToS3(file);
-        
-        console.log(`File uploaded successfully with key: ${s3Key}`);
-        
-        // Update file status in store
-        updateFile(fileId, {
-          status: "uploaded",
-          s3Key,
-        });
-      } catch (error: any) {
-        console.error(`Upload error for ${file.name}:`, error);
-        
-        const errorMessage = error.message || "Failed to upload file";
-        console.error(errorMessage);
-        
-        updateFile(fileId, {
-          status: "error",
-          error: errorMessage,
-        });
-      }
-    }
+  const confirmImport = async (file: File, mapping: ImportMapping) => {
+    setImportQueue((queue) => queue.filter((queued) => queued !== file));
+    await uploadImport(file, mapping);
+  };
+
+  const cancelImport = (file: File) => {
+    setImportQueue((queue) => queue.filter((queued) => queued !== file));
   };
 
   const handleFileRemove = async (fileId: string, s3Key?: string, fileName?: string) => {
@@ -113,15 +168,16 @@ export default function UploadPage() {
   const confirmDelete = async () => {
     if (!fileToDelete) return;
 
-    const { id, s3Key } = fileToDelete;
-    if (s3Key) {
-      try {
-        await deleteFromS3(s3Key);
-      } catch (error) {
-        console.error('Error deleting file from S3:', error);
-      }
+    const { id, name, s3Key } = fileToDelete;
+    // Stop an unfinished upload and release its stored parts
+    await cancelUpload(id);
+    // Keep the file listed if it's still in the bucket
+    const deleted = s3Key ? await deleteFromS3(s3Key) : true;
+    if (deleted) {
+      removeFile(id);
+    } else {
+      reportError("Couldn't delete the file", `${name || "The file"} is still stored. Try again in a moment.`);
     }
-    removeFile(id);
     setIsDeleteDialogOpen(false);
     setFileToDelete(null);
   };
@@ -185,13 +241,16 @@ export default function UploadPage() {
                 <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">
                   Please check your AWS S3 configuration in the environment variables.
                 </p>
-                <button
-                  onClick={testS3Connection}
-                  disabled={testingConnection}
-                  className="mt-2 px-3 py-1 text-xs font-medium bg-yellow-100 dark:bg-yellow-800 text-yellow-800 dark:text-yellow-200 rounded-md hover:bg-yellow-200 dark:hover:bg-yellow-700 disabled:opacity-50"
-                >
-                  {testingConnection ? "Testing..." : "Test S3 Connection"}
-                </button>
+                {/* The test deletes its file afterwards, which staff can't do */}
+                {can(user, "documents:delete_own") && (
+                  <button
+                    onClick={testS3Connection}
+                    disabled={testingConnection}
+                    className="mt-2 px-3 py-1 text-xs font-medium bg-yellow-100 dark:bg-yellow-800 text-yellow-800 dark:text-yellow-200 rounded-md hover:bg-yellow-200 dark:hover:bg-yellow-700 disabled:opacity-50"
+                  >
+                    {testingConnection ? "Testing..." : "Test S3 Connection"}
+                  </button>
+                )}
               </div>
             </motion.div>
           )}
@@ -237,7 +296,7 @@ export default function UploadPage() {
                 type="file"
                 onChange={(e) => handleFileUpload(e.target.files)}
                 multiple
-                accept=".pdf,image/*"
+                accept={ACCEPTED_FILE_TYPES}
                 aria-label="Choose files to upload"
                 className="w-full text-sm text-gray-500 dark:text-gray-400
                   file:mr-4 file:py-2 file:px-4
@@ -251,45 +310,174 @@ export default function UploadPage() {
                 Drag and drop your files here or click to browse
               </p>
               <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
-                Supported formats: PDF, Images
+                Supported formats: PDF, Images, CSV, Excel (.xlsx) · Up to {formatFileSize(uploadConfig.maxFileSize)}
               </p>
             </div>
 
-            {files.length > 0 && (
-              <div className="mt-8">
-                <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
+            <div className="mt-8">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
                   Uploaded Files
                 </h3>
-                <div className="space-y-3">
-                  {files.map((file) => (
-                    <motion.div
-                      key={file.id}
-                      initial={{ opacity: 0, x: -20 }}
-                      animate={{ opacity: 1, x: 0 }}
-                      className="flex items-center justify-between bg-gray-50 dark:bg-gray-700 p-3 rounded-lg"
+                <button
+                  onClick={() => loadFiles()}
+                  disabled={isLoadingFiles}
+                  className="p-1 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white disabled:opacity-50"
+                  aria-label="Refresh file list"
+                  title="Refresh"
+                >
+                  <RefreshCw size={16} className={isLoadingFiles ? "animate-spin" : ""} />
+                </button>
+              </div>
+
+              <div className="flex flex-wrap gap-2 mb-4">
+                <input
+                  type="search"
+                  value={filterText}
+                  onChange={(e) => setFilterText(e.target.value)}
+                  placeholder="Filter by name..."
+                  aria-label="Filter files by name"
+                  className="flex-1 min-w-[160px] px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                />
+                <select
+                  value={typeFilter}
+                  onChange={(e) => setTypeFilter(e.target.value)}
+                  aria-label="Filter files by type"
+                  className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="all">All types</option>
+                  {contentTypes.map((type) => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+                <select
+                  value={sortKey}
+                  onChange={(e) => setSortKey(e.target.value as SortKey)}
+                  aria-label="Sort files"
+                  className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="date-desc">Newest first</option>
+                  <option value="date-asc">Oldest first</option>
+                  <option value="name-asc">Name (A–Z)</option>
+                  <option value="name-desc">Name (Z–A)</option>
+                  <option value="size-desc">Largest first</option>
+                  <option value="size-asc">Smallest first</option>
+                </select>
+              </div>
+
+              {filesError && (
+                <p className="mb-3 text-sm text-red-600 dark:text-red-400">{filesError}</p>
+              )}
+
+              {visibleFiles.length === 0 && !isLoadingFiles && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {files.length === 0 ? "No documents uploaded yet." : "No files match your filters."}
+                </p>
+              )}
+
+              <div className="space-y-3">
+                {visibleFiles.map((file) => (
+                  <motion.div
+                    key={file.id}
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    className="flex items-center justify-between bg-gray-50 dark:bg-gray-700 p-3 rounded-lg"
+                  >
+                    <div 
+                      className="flex-1 min-w-0 cursor-pointer"
+                      onClick={() => file.s3Key && handleFileView(file.s3Key)}
                     >
-                      <div 
-                        className="flex-1 min-w-0 cursor-pointer"
-                        onClick={() => file.s3Key && handleFileView(file.s3Key)}
-                      >
-                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate hover:text-blue-600 dark:hover:text-blue-400">
-                          {file.name}
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate hover:text-blue-600 dark:hover:text-blue-400">
+                        {file.name}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatFileSize(file.size)}
+                        {file.contentType && <span className="ml-2">{file.contentType}</span>}
+                        {file.uploadedAt && (
+                          <span className="ml-2">{new Date(file.uploadedAt).toLocaleString()}</span>
+                        )}
+                        <span className={`ml-2 inline-block px-2 py-0.5 rounded-full text-xs ${
+                          file.status === "error" || file.ingestion?.status === "failed" ? "bg-red-100 text-red-800" :
+                          file.status === "uploading" ? "bg-yellow-100 text-yellow-800" :
+                          file.status === "paused" ? "bg-gray-200 text-gray-800" :
+                          file.ingestion?.status === "queued" ? "bg-gray-200 text-gray-800" :
+                          file.status === "processing" ? "bg-yellow-100 text-yellow-800" :
+                          "bg-green-100 text-green-800"
+                        }`}>
+                          {file.status === "uploading" || file.status === "paused"
+                            ? `${file.status} ${file.progress ?? 0}%`
+                            : file.ingestion && file.status !== "error"
+                              ? file.ingestion.status
+                              : file.status}
+                        </span>
+                        {file.error && (
+                          <span className="ml-2 text-red-500">{file.error}</span>
+                        )}
+                      </p>
+                      {file.ingestion?.status === "failed" && (
+                        <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+                          Indexing failed{file.ingestion.error ? `: ${file.ingestion.error}` : "."}
                         </p>
-                        <p className="text-xs text-gray-500 dark:text-gray-400">
-                          {(file.size / 1024).toFixed(2)} KB
-                          <span className={`ml-2 inline-block px-2 py-0.5 rounded-full text-xs ${
-                            file.status === "error" ? "bg-red-100 text-red-800" :
-                            file.status === "uploading" ? "bg-yellow-100 text-yellow-800" :
-                            file.status === "processing" ? "bg-yellow-100 text-yellow-800" :
-                            "bg-green-100 text-green-800"
-                          }`}>
-                            {file.status}
-                          </span>
-                          {file.error && (
-                            <span className="ml-2 text-red-500">{file.error}</span>
-                          )}
+                      )}
+                      {file.errorCode && (
+                        <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+                          {UPLOAD_ERROR_HINTS[file.errorCode]}
                         </p>
-                      </div>
+                      )}
+                      {(file.status === "uploading" || file.status === "paused") && (
+                        <div className="mt-2 h-1.5 w-full bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full rounded-full transition-all ${
+                              file.status === "paused" ? "bg-gray-400" : "bg-blue-600"
+                            }`}
+                            style={{ width: `${file.progress ?? 0}%` }}
+                          />
+                        </div>
+                      )}
+                    </div>
+                    {file.status === "uploading" && (
+                      <button
+                        onClick={() => pauseUpload(file.id)}
+                        className="ml-4 p-1 text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
+                        aria-label={`Pause upload of ${file.name}`}
+                        title="Pause"
+                      >
+                        <Pause size={16} />
+                      </button>
+                    )}
+                    {file.status === "paused" && (
+                      <button
+                        onClick={() => resumeUpload(file.id)}
+                        className="ml-4 p-1 text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
+                        aria-label={`Resume upload of ${file.name}`}
+                        title="Resume"
+                      >
+                        <Play size={16} />
+                      </button>
+                    )}
+                    {file.status === "error" && canResume(file.id) && (
+                      <button
+                        onClick={() => resumeUpload(file.id)}
+                        className="ml-4 p-1 text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
+                        aria-label={`Retry upload of ${file.name}`}
+                        title="Retry failed parts"
+                      >
+                        <RotateCcw size={16} />
+                      </button>
+                    )}
+                    {file.ingestion?.status === "failed" && file.s3Key && (
+                      <button
+                        onClick={() => retryIngestion(file.s3Key!)}
+                        className="ml-4 p-1 text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
+                        aria-label={`Retry indexing of ${file.name}`}
+                        title="Retry indexing"
+                      >
+                        <RotateCcw size={16} />
+                      </button>
+                    )}
+                    {/* Anyone can cancel their own unfinished upload; stored
+                        documents need delete rights */}
+                    {(!file.s3Key || file.status === "uploading" || file.status === "paused" || canDeleteDocument(user, file.s3Key)) && (
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -299,15 +487,34 @@ export default function UploadPage() {
                       >
                         <span className="text-xl">×</span>
                       </button>
-                    </motion.div>
-                  ))}
-                </div>
+                    )}
+                  </motion.div>
+                ))}
               </div>
-            )}
+
+              {filesContinuationToken && (
+                <button
+                  onClick={() => loadFiles({ append: true })}
+                  disabled={isLoadingFiles}
+                  className="mt-4 w-full py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md disabled:opacity-50"
+                >
+                  {isLoadingFiles ? "Loading..." : "Load more"}
+                </button>
+              )}
+            </div>
           </motion.div>
         </div>
       </div>
 
+      <ImportPreviewDialog
+        file={importQueue[0] ?? null}
+        onConfirm={confirmImport}
+        onCancel={cancelImport}
+      />
+
+      <SessionExpiredDialog />
+      <ErrorToaster />
+
       {/* Delete Confirmation Dialog */}
       <Dialog
         open={isDeleteDialogOpen}
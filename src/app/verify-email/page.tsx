@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import useAuth from '@/lib/hooks/useAuth';
+
+type VerifyState =
+  | { status: 'verifying' }
+  | { status: 'verified' }
+  | { status: 'failed'; error: string };
+
+export default function VerifyEmailPage() {
+  const { verifyEmail } = useAuth();
+  const [state, setState] = useState<VerifyState>({ status: 'verifying' });
+  // Tokens are single use; don't send it twice when effects re-run in dev
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (requested.current) return;
+    requested.current = true;
+
+    const token = new URLSearchParams(window.location.search).get('token');
+    if (!token) {
+      setState({ status: 'failed', error: 'This verification link is incomplete.' });
+      return;
+    }
+
+    verifyEmail(token).then((result) => {
+      setState(
+        result.success
+          ? { status: 'verified' }
+          : { status: 'failed', error: result.error || 'Email verification failed' }
+      );
+    });
+  }, [verifyEmail]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8 text-center">
+        <h2 className="mt-6 text-3xl font-extrabold text-gray-900 dark:text-white">
+          Verify your email
+        </h2>
+
+        {state.status === 'verifying' && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">Checking your link...</p>
+        )}
+
+        {state.status === 'verified' && (
+          <div className="rounded-md bg-green-50 dark:bg-green-900/50 p-4 text-sm text-green-700 dark:text-green-200">
+            Your email address is verified.
+          </div>
+        )}
+
+        {state.status === 'failed' && (
+          <div className="rounded-md bg-red-50 dark:bg-red-900/50 p-4 text-sm text-red-700 dark:text-red-200">
+            {state.error}
+          </div>
+        )}
+
+        {state.status !== 'verifying' && (
+          <Link
+            href={state.status === 'verified' ? '/login?notice=email-verified' : '/login'}
+            className="inline-block font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+          >
+            Continue to sign in
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { Dialog } from "@headlessui/react";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { LogIn } from "lucide-react";
+import useAuth from "@/lib/hooks/useAuth";
+import { loginSchema, type LoginFormData } from "@/lib/schemas/auth";
+import { useSessionStore } from "@/store/session-store";
+
+// Sign back in without leaving the page, so drafts and open chats survive an
+// expired session
+export function SessionExpiredDialog() {
+  const isExpired = useSessionStore((state) => state.isExpired);
+  const pathname = usePathname();
+  const { login } = useAuth();
+  const [error, setError] = useState("");
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<LoginFormData>({
+    resolver: zodResolver(loginSchema),
+  });
+
+  const onSubmit = async (data: LoginFormData) => {
+    setError("");
+    const result = await login(data);
+    if (result.success) {
+      reset();
+    } else {
+      setError(result.error || "Login failed");
+    }
+  };
+
+  return (
+    // Can't be dismissed: nothing works until the user signs in again
+    <Dialog open={isExpired} onClose={() => {}} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="mx-auto w-full max-w-sm rounded-lg bg-white dark:bg-gray-800 p-6">
+          <Dialog.Title className="flex items-center gap-2 text-lg font-medium text-gray-900 dark:text-white">
+            <LogIn size={20} />
+            Your session expired
+          </Dialog.Title>
+          <Dialog.Description className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+            Sign in again to carry on. Anything you haven&apos;t sent yet stays where it is.
+          </Dialog.Description>
+
+          <form className="mt-4 space-y-3" onSubmit={handleSubmit(onSubmit)}>
+            {error && (
+              <div className="rounded-md bg-red-50 dark:bg-red-900/50 p-3 text-sm text-red-700 dark:text-red-200">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="session-username" className="sr-only">Username</label>
+              <input
+                {...register("username")}
+                id="session-username"
+                type="text"
+                autoComplete="username"
+                placeholder="Username"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-900 dark:text-white dark:bg-gray-700"
+              />
+              {errors.username && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.username.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="session-password" className="sr-only">Password</label>
+              <input
+                {...register("password")}
+                id="session-password"
+                type="password"
+                autoComplete="current-password"
+                placeholder="Password"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-900 dark:text-white dark:bg-gray-700"
+              />
+              {errors.password && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.password.message}</p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between pt-2">
+              <Link
+                href={`/login?next=${encodeURIComponent(pathname)}`}
+                className="text-sm text-gray-500 dark:text-gray-400 hover:underline"
+              >
+                Go to login page
+              </Link>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50"
+              >
+                {isSubmitting ? "Signing in..." : "Sign in"}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+}
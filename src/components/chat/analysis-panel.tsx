@@ -0,0 +1,233 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ArrowDown, ArrowUp, ArrowUpDown, BarChart3, Download, Image as ImageIcon, LineChart as LineIcon, PieChart as PieIcon } from "lucide-react";
+import type { AnalysisResult, CellValue, ChartType, DataRow } from "@/lib/types/analysis";
+import { toCsv, toNumber } from "@/lib/analysis";
+import { downloadBlob, svgToPngBlob, toFilename } from "@/lib/download";
+import { cn } from "@/lib/utils";
+
+const COLORS = ["#2563eb", "#16a34a", "#f59e0b", "#dc2626", "#7c3aed", "#0891b2", "#db2777", "#65a30d"];
+
+const CHART_OPTIONS: { type: ChartType; label: string; icon: typeof BarChart3 }[] = [
+  { type: "bar", label: "Bar chart", icon: BarChart3 },
+  { type: "line", label: "Line chart", icon: LineIcon },
+  { type: "pie", label: "Pie chart", icon: PieIcon },
+];
+
+type SortState = { column: string; direction: "asc" | "desc" } | null;
+
+const compareValues = (a: CellValue, b: CellValue) => {
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (numA !== null && numB !== null) return numA - numB;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+const formatCell = (value: CellValue) => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "number") return value.toLocaleString();
+  return String(value);
+};
+
+type AnalysisPanelProps = {
+  analysis: AnalysisResult;
+};
+
+export function AnalysisPanel({ analysis }: AnalysisPanelProps) {
+  const { columns, rows, chart } = analysis;
+  const [chartType, setChartType] = useState<ChartType | null>(chart?.type ?? null);
+  const [sort, setSort] = useState<SortState>(null);
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const title = chart?.title || analysis.query || "analysis";
+
+  // Recharts needs real numbers for the plotted series
+  const chartData = useMemo(() => {
+    if (!chart) return [];
+    return rows.map((row) => ({
+      ...row,
+      ...Object.fromEntries(chart.y.map((column) => [column, toNumber(row[column]) ?? 0])),
+    }));
+  }, [rows, chart]);
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return rows;
+    const sorted = [...rows].sort((a: DataRow, b: DataRow) => compareValues(a[sort.column], b[sort.column]));
+    return sort.direction === "asc" ? sorted : sorted.reverse();
+  }, [rows, sort]);
+
+  const toggleSort = (column: string) => {
+    setSort((prev) => {
+      if (prev?.column !== column) return { column, direction: "asc" };
+      if (prev.direction === "asc") return { column, direction: "desc" };
+      return null;
+    });
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob([toCsv(columns, sortedRows)], { type: "text/csv;charset=utf-8" });
+    downloadBlob(blob, toFilename(title, "csv"));
+  };
+
+  const exportPng = async () => {
+    const svg = chartRef.current?.querySelector<SVGSVGElement>("svg.recharts-surface");
+    if (!svg) return;
+
+    try {
+      const blob = await svgToPngBlob(svg);
+      downloadBlob(blob, toFilename(title, "png"));
+    } catch (error) {
+      console.error("Failed to export chart:", error);
+    }
+  };
+
+  const renderChart = () => {
+    if (!chart || !chartType) return null;
+
+    if (chartType === "pie") {
+      const valueKey = chart.y[0];
+      return (
+        <PieChart>
+          <Pie data={chartData} dataKey={valueKey} nameKey={chart.x} outerRadius="80%" label>
+            {chartData.map((_, index) => (
+              <Cell key={index} fill={COLORS[index % COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip />
+          <Legend />
+        </PieChart>
+      );
+    }
+
+    const ChartComponent = chartType === "line" ? LineChart : BarChart;
+
+    return (
+      <ChartComponent data={chartData} margin={{ top: 8, right: 16, bottom: 8, left: 8 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#9ca3af" strokeOpacity={0.3} />
+        <XAxis dataKey={chart.x} tick={{ fontSize: 12 }} />
+        <YAxis tick={{ fontSize: 12 }} tickFormatter={(value: number) => value.toLocaleString()} />
+        <Tooltip formatter={(value: number) => value.toLocaleString()} />
+        {chart.y.length > 1 && <Legend />}
+        {chart.y.map((column, index) =>
+          chartType === "line" ? (
+            <Line key={column} type="monotone" dataKey={column} stroke={COLORS[index % COLORS.length]} strokeWidth={2} dot={false} />
+          ) : (
+            <Bar key={column} dataKey={column} fill={COLORS[index % COLORS.length]} radius={[3, 3, 0, 0]} />
+          )
+        )}
+      </ChartComponent>
+    );
+  };
+
+  return (
+    <div className="mt-3 space-y-3">
+      {chart && (
+        <div className="rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 p-3">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-semibold truncate">{chart.title || `${chart.y.join(", ")} by ${chart.x}`}</h4>
+            <div className="flex items-center gap-1">
+              {CHART_OPTIONS.map(({ type, label, icon: Icon }) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => setChartType(type)}
+                  className={cn(
+                    "p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600",
+                    chartType === type && "bg-gray-200 dark:bg-gray-600"
+                  )}
+                  aria-label={label}
+                  title={label}
+                >
+                  <Icon size={14} />
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={exportPng}
+                className="ml-1 p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                aria-label="Export chart as PNG"
+                title="Export PNG"
+              >
+                <ImageIcon size={14} />
+              </button>
+            </div>
+          </div>
+          <div ref={chartRef} className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              {renderChart() ?? <div />}
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-600">
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {rows.length} {rows.length === 1 ? "row" : "rows"}
+          </span>
+          <button
+            type="button"
+            onClick={exportCsv}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            <Download size={12} />
+            CSV
+          </button>
+        </div>
+        <div className="max-h-72 overflow-auto">
+          <table className="min-w-full text-sm">
+            <thead className="sticky top-0 bg-gray-100 dark:bg-gray-700">
+              <tr>
+                {columns.map((column) => (
+                  <th key={column} className="px-3 py-2 text-left font-semibold whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(column)}
+                      className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400"
+                    >
+                      {column}
+                      {sort?.column === column ? (
+                        sort.direction === "asc" ? <ArrowUp size={12} /> : <ArrowDown size={12} />
+                      ) : (
+                        <ArrowUpDown size={12} className="opacity-40" />
+                      )}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-gray-100 dark:border-gray-700">
+                  {columns.map((column) => (
+                    <td key={column} className="px-3 py-1.5 whitespace-nowrap tabular-nums">
+                      {formatCell(row[column])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
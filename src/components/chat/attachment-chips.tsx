@@ -0,0 +1,45 @@
+"use client";
+
+import { FileText, X } from "lucide-react";
+import type { MessageAttachment } from "@/store/chat-store";
+import { cn } from "@/lib/utils";
+
+type AttachmentChipsProps = {
+  attachments: MessageAttachment[];
+  onRemove?: (s3Key: string) => void;
+  variant?: "composer" | "message";
+};
+
+export function AttachmentChips({ attachments, onRemove, variant = "composer" }: AttachmentChipsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <span
+          key={attachment.s3Key}
+          className={cn(
+            "inline-flex items-center gap-1 max-w-[220px] px-2 py-1 rounded-full text-xs",
+            variant === "message"
+              ? "bg-blue-500/60 text-white"
+              : "bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100"
+          )}
+          title={attachment.name}
+        >
+          <FileText size={12} className="shrink-0" />
+          <span className="truncate">{attachment.name}</span>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(attachment.s3Key)}
+              className="shrink-0 rounded-full hover:bg-gray-300 dark:hover:bg-gray-500"
+              aria-label={`Remove ${attachment.name}`}
+            >
+              <X size={12} />
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
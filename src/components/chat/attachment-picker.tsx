@@ -0,0 +1,107 @@
+"use client";
+
+import { Popover, PopoverButton, PopoverPanel } from "@headlessui/react";
+import Link from "next/link";
+import { useEffect } from "react";
+import { Check, Paperclip, Upload } from "lucide-react";
+import { useChatStore, type MessageAttachment } from "@/store/chat-store";
+import { cn } from "@/lib/utils";
+
+type AttachmentPickerProps = {
+  selected: MessageAttachment[];
+  onToggle: (attachment: MessageAttachment) => void;
+  onUploadClick: () => void;
+  disabled?: boolean;
+};
+
+// Lets the user pick previously uploaded documents to send with a question
+export function AttachmentPicker({ selected, onToggle, onUploadClick, disabled }: AttachmentPickerProps) {
+  const files = useChatStore((state) => state.files);
+  const loadFiles = useChatStore((state) => state.loadFiles);
+
+  // Documents uploaded in earlier visits live only in the bucket listing
+  useEffect(() => {
+    if (useChatStore.getState().files.length === 0) {
+      loadFiles();
+    }
+  }, [loadFiles]);
+
+  // Documents still being indexed can be attached; the composer warns about them
+  const available = files.filter(
+    (file) => (file.status === "uploaded" || file.status === "processing") && file.s3Key
+  );
+
+  return (
+    <Popover className="relative">
+      <PopoverButton
+        disabled={disabled}
+        className="h-full px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Attach documents"
+        title="Attach documents"
+      >
+        <Paperclip size={18} />
+      </PopoverButton>
+
+      <PopoverPanel
+        anchor={{ to: "top start", gap: 8 }}
+        className="z-40 w-72 rounded-lg bg-white dark:bg-gray-800 shadow-xl border border-gray-200 dark:border-gray-700 p-2"
+      >
+        <div className="px-2 py-1 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase">
+          Uploaded documents
+        </div>
+
+        {available.length === 0 ? (
+          <p className="px-2 py-3 text-sm text-gray-500 dark:text-gray-400">
+            No documents yet.{" "}
+            <Link href="/upload" className="text-blue-600 dark:text-blue-400 hover:underline">
+              Go to uploads
+            </Link>
+          </p>
+        ) : (
+          <ul className="max-h-60 overflow-y-auto">
+            {available.map((file) => {
+              const isSelected = selected.some((attachment) => attachment.s3Key === file.s3Key);
+              return (
+                <li key={file.id}>
+                  <button
+                    type="button"
+                    onClick={() => onToggle({ s3Key: file.s3Key!, name: file.name })}
+                    className={cn(
+                      "w-full flex items-center gap-2 px-2 py-2 rounded-md text-sm text-left text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700",
+                      isSelected && "bg-blue-50 dark:bg-blue-900/30"
+                    )}
+                  >
+                    <span
+                      className={cn(
+                        "flex items-center justify-center w-4 h-4 rounded border shrink-0",
+                        isSelected ? "bg-blue-600 border-blue-600 text-white" : "border-gray-400"
+                      )}
+                    >
+                      {isSelected && <Check size={12} />}
+                    </span>
+                    <span className="truncate">{file.name}</span>
+                    {file.status === "processing" && (
+                      <span className="ml-auto shrink-0 text-xs text-yellow-600 dark:text-yellow-400">indexing</span>
+                    )}
+                    {file.ingestion?.status === "failed" && (
+                      <span className="ml-auto shrink-0 text-xs text-red-600 dark:text-red-400">failed</span>
+                    )}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <button
+          type="button"
+          onClick={onUploadClick}
+          className="mt-1 w-full flex items-center gap-2 px-2 py-2 rounded-md text-sm text-blue-600 dark:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+        >
+          <Upload size={14} />
+          Upload from computer
+        </button>
+      </PopoverPanel>
+    </Popover>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import * as Toast from "@radix-ui/react-toast";
+import { AlertTriangle, X } from "lucide-react";
+import { useChatStore } from "@/store/chat-store";
+
+// Toasts for failed chat store actions. Each stays up for a while and is
+// removed from the store once it closes.
+export function ErrorToaster() {
+  const errors = useChatStore((state) => state.errors);
+  const dismissError = useChatStore((state) => state.dismissError);
+
+  return (
+    <Toast.Provider swipeDirection="right" duration={8000}>
+      {errors.map((error) => (
+        <Toast.Root
+          key={error.id}
+          onOpenChange={(open) => {
+            if (!open) dismissError(error.id);
+          }}
+          className="flex items-start gap-3 rounded-lg border border-red-200 dark:border-red-900 bg-white dark:bg-gray-800 p-4 shadow-lg"
+        >
+          <AlertTriangle size={18} className="shrink-0 mt-0.5 text-red-600 dark:text-red-400" />
+          <div className="flex-1 min-w-0">
+            <Toast.Title className="text-sm font-medium text-gray-900 dark:text-white">
+              {error.title}
+            </Toast.Title>
+            <Toast.Description className="mt-1 text-sm text-gray-600 dark:text-gray-300 break-words">
+              {error.description}
+            </Toast.Description>
+          </div>
+          <Toast.Close
+            className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="Dismiss"
+          >
+            <X size={14} />
+          </Toast.Close>
+        </Toast.Root>
+      ))}
+      <Toast.Viewport className="fixed bottom-4 right-4 z-50 flex w-96 max-w-[calc(100vw-2rem)] flex-col gap-2 outline-none" />
+    </Toast.Provider>
+  );
+}
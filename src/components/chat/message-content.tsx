@@ -0,0 +1,118 @@
+"use client";
+
+import { memo } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { cn } from "@/lib/utils";
+import { CopyButton } from "./copy-button";
+
+// Minimal shape of the hast nodes react-markdown hands to components
+type HastNode = {
+  type: string;
+  value?: string;
+  children?: HastNode[];
+};
+
+// Collect the raw text of a node, used to copy code blocks verbatim
+const getNodeText = (node?: HastNode): string => {
+  if (!node) return "";
+  if (node.type === "text") return node.value || "";
+  return (node.children || []).map(getNodeText).join("");
+};
+
+// The analyst API escapes newlines as a literal "\n"; turn them back into real
+// line breaks before the markdown is parsed
+export const normalizeContent = (text: string) => text.replace(/\\n/g, "\n");
+
+const components: Components = {
+  h1: ({ children }) => <h1 className="text-xl font-bold mt-4 mb-2 first:mt-0">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-lg font-bold mt-4 mb-2 first:mt-0">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-base font-semibold mt-3 mb-2 first:mt-0">{children}</h3>,
+  h4: ({ children }) => <h4 className="font-semibold mt-3 mb-1 first:mt-0">{children}</h4>,
+  p: ({ children }) => <p className="mb-3 last:mb-0 leading-relaxed">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-6 mb-3 last:mb-0 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-6 mb-3 last:mb-0 space-y-1">{children}</ol>,
+  li: ({ children }) => <li className="leading-relaxed">{children}</li>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-gray-300 dark:border-gray-500 pl-3 my-3 text-gray-600 dark:text-gray-300">
+      {children}
+    </blockquote>
+  ),
+  hr: () => <hr className="my-4 border-gray-300 dark:border-gray-600" />,
+  a: ({ children, href }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-blue-600 dark:text-blue-400 underline hover:no-underline"
+    >
+      {children}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className="my-3 overflow-x-auto rounded-md border border-gray-200 dark:border-gray-600">
+      <table className="min-w-full text-sm border-collapse">{children}</table>
+    </div>
+  ),
+  thead: ({ children }) => <thead className="bg-gray-200 dark:bg-gray-600">{children}</thead>,
+  tr: ({ children }) => (
+    <tr className="border-b border-gray-200 dark:border-gray-600 last:border-b-0 even:bg-gray-50 dark:even:bg-gray-700/50">
+      {children}
+    </tr>
+  ),
+  th: ({ children, style }) => (
+    <th className="px-3 py-2 text-left font-semibold whitespace-nowrap" style={style}>
+      {children}
+    </th>
+  ),
+  td: ({ children, style }) => (
+    <td className="px-3 py-2 whitespace-nowrap tabular-nums" style={style}>
+      {children}
+    </td>
+  ),
+  // Fenced code blocks get a header with the language and a copy button
+  pre: ({ children, node }) => {
+    const code = node?.children[0] as (HastNode & { properties?: { className?: string[] } }) | undefined;
+    const language = code?.properties?.className
+      ?.find((name) => name.startsWith("language-"))
+      ?.replace("language-", "");
+
+    return (
+      <div className="my-3 rounded-md overflow-hidden bg-gray-900 text-gray-100">
+        <div className="flex items-center justify-between px-3 py-1 bg-gray-800 text-xs text-gray-400">
+          <span>{language || "code"}</span>
+          <CopyButton
+            text={getNodeText(code).replace(/\n$/, "")}
+            label="Copy code"
+            className="text-gray-400 hover:text-white hover:bg-gray-700 dark:hover:bg-gray-700"
+          />
+        </div>
+        <pre className="p-3 overflow-x-auto text-sm [&>code]:p-0 [&>code]:bg-transparent [&>code]:dark:bg-transparent [&>code]:text-sm">
+          {children}
+        </pre>
+      </div>
+    );
+  },
+  // Inline code styling; the pre wrapper above resets it for fenced blocks
+  code: ({ children, className }) => (
+    <code className={cn("px-1 py-0.5 rounded bg-gray-200 dark:bg-gray-600 font-mono text-[0.9em]", className)}>
+      {children}
+    </code>
+  ),
+};
+
+type MessageContentProps = {
+  content: string;
+};
+
+// Renders assistant markdown (GFM tables, lists, code). Raw HTML in the source
+// is never injected: react-markdown escapes it and we don't enable rehype-raw.
+export const MessageContent = memo(function MessageContent({ content }: MessageContentProps) {
+  return (
+    <div className="break-words">
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+        {normalizeContent(content)}
+      </ReactMarkdown>
+    </div>
+  );
+});
@@ -0,0 +1,235 @@
+"use client";
+
+import { Dialog } from "@headlessui/react";
+import { useEffect, useState } from "react";
+import { AlertTriangle, FileSpreadsheet } from "lucide-react";
+import {
+  buildImportMapping,
+  guessFieldMapping,
+  readTabularPreview,
+  type FieldMapping,
+  type TabularPreview,
+} from "@/lib/tabular-import";
+import {
+  IMPORT_FIELDS,
+  REQUIRED_IMPORT_FIELDS,
+  type ColumnType,
+  type ImportField,
+  type ImportMapping,
+} from "@/lib/types/import-mapping";
+import { cn } from "@/lib/utils";
+
+type ImportPreviewDialogProps = {
+  file: File | null;
+  onConfirm: (file: File, mapping: ImportMapping) => void;
+  onCancel: (file: File) => void;
+};
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  date: "Date",
+  item: "Item",
+  quantity: "Quantity",
+  price: "Price",
+  category: "Category",
+};
+
+const TYPE_STYLES: Record<ColumnType, string> = {
+  date: "bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-200",
+  number: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200",
+  currency: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200",
+  text: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200",
+  empty: "bg-gray-50 text-gray-400 dark:bg-gray-800 dark:text-gray-500",
+};
+
+// Rows shown in the table; the rest of the sample only feeds type detection
+const VISIBLE_ROWS = 8;
+
+// Shows the first rows of a CSV/XLSX file and lets the user confirm which
+// column holds each sales field before the file is uploaded
+export function ImportPreviewDialog({ file, onConfirm, onCancel }: ImportPreviewDialogProps) {
+  const [preview, setPreview] = useState<TabularPreview | null>(null);
+  const [fields, setFields] = useState<FieldMapping>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+
+    let cancelled = false;
+    setPreview(null);
+    setFields({});
+    setError(null);
+
+    readTabularPreview(file)
+      .then((result) => {
+        if (cancelled) return;
+        setPreview(result);
+        setFields(guessFieldMapping(result));
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Failed to read import preview:", err);
+        setError(err instanceof Error ? err.message : "Could not read the file");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const selectColumn = (field: ImportField, value: string) => {
+    if (!preview) return;
+
+    setFields((current) => {
+      const next = { ...current };
+      if (value === "") {
+        delete next[field];
+        return next;
+      }
+
+      const index = Number(value);
+      // A column can only feed one field
+      for (const other of IMPORT_FIELDS) {
+        if (next[other]?.index === index) delete next[other];
+      }
+      next[field] = { column: preview.headers[index], index, type: preview.columnTypes[index] };
+      return next;
+    });
+  };
+
+  const missing = REQUIRED_IMPORT_FIELDS.filter((field) => !fields[field]);
+  const fieldByColumn = new Map(
+    IMPORT_FIELDS.filter((field) => fields[field]).map((field) => [fields[field]!.index, field])
+  );
+
+  return (
+    <Dialog open={file !== null} onClose={() => file && onCancel(file)} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="mx-auto w-full max-w-4xl max-h-[90vh] flex flex-col rounded-lg bg-white dark:bg-gray-800 p-6">
+          <Dialog.Title className="flex items-center gap-2 text-lg font-medium text-gray-900 dark:text-white">
+            <FileSpreadsheet size={20} className="text-green-600" />
+            Import {file?.name}
+          </Dialog.Title>
+          <Dialog.Description className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Check which column holds each value. The mapping is saved with the file so it can be
+            imported without guessing.
+          </Dialog.Description>
+
+          {error && (
+            <div className="mt-4 flex items-start gap-2 rounded-md bg-red-50 dark:bg-red-900/30 p-3 text-sm text-red-700 dark:text-red-300">
+              <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+              {error}
+            </div>
+          )}
+
+          {!preview && !error && (
+            <p className="mt-6 text-sm text-gray-500 dark:text-gray-400">Reading file...</p>
+          )}
+
+          {preview && (
+            <>
+              <div className="mt-4 grid grid-cols-2 sm:grid-cols-5 gap-3">
+                {IMPORT_FIELDS.map((field) => (
+                  <label key={field} className="text-sm">
+                    <span className="block mb-1 font-medium text-gray-700 dark:text-gray-300">
+                      {FIELD_LABELS[field]}
+                      {REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-red-500"> *</span>}
+                    </span>
+                    <select
+                      value={fields[field]?.index ?? ""}
+                      onChange={(e) => selectColumn(field, e.target.value)}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                    >
+                      <option value="">Not mapped</option>
+                      {preview.headers.map((header, index) => (
+                        <option key={index} value={index}>{header}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <div className="mt-4 overflow-auto border border-gray-200 dark:border-gray-700 rounded-md">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-gray-50 dark:bg-gray-900/50">
+                    <tr>
+                      {preview.headers.map((header, index) => {
+                        const field = fieldByColumn.get(index);
+                        return (
+                          <th
+                            key={index}
+                            className={cn(
+                              "px-3 py-2 text-left font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap",
+                              field && "bg-blue-50 dark:bg-blue-900/30"
+                            )}
+                          >
+                            <div>{header}</div>
+                            <div className="mt-1 flex gap-1">
+                              <span className={cn("px-1.5 py-0.5 rounded font-normal", TYPE_STYLES[preview.columnTypes[index]])}>
+                                {preview.columnTypes[index]}
+                              </span>
+                              {field && (
+                                <span className="px-1.5 py-0.5 rounded bg-blue-600 text-white font-normal">
+                                  {FIELD_LABELS[field]}
+                                </span>
+                              )}
+                            </div>
+                          </th>
+                        );
+                      })}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                    {preview.rows.slice(0, VISIBLE_ROWS).map((row, rowIndex) => (
+                      <tr key={rowIndex}>
+                        {row.map((value, index) => (
+                          <td
+                            key={index}
+                            className={cn(
+                              "px-3 py-1.5 text-gray-900 dark:text-gray-100 whitespace-nowrap",
+                              fieldByColumn.has(index) && "bg-blue-50/50 dark:bg-blue-900/10"
+                            )}
+                          >
+                            {value === null ? "" : String(value)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {preview.rows.length === 0 && (
+                <p className="mt-2 text-sm text-yellow-700 dark:text-yellow-300">
+                  Only a header row was found.
+                </p>
+              )}
+            </>
+          )}
+
+          <div className="mt-4 flex items-center justify-end gap-3">
+            {preview && missing.length > 0 && (
+              <p className="mr-auto text-xs text-gray-500 dark:text-gray-400">
+                Choose a column for: {missing.map((field) => FIELD_LABELS[field]).join(", ")}
+              </p>
+            )}
+            <button
+              onClick={() => file && onCancel(file)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => file && preview && onConfirm(file, buildImportMapping(preview, fields))}
+              disabled={!preview || missing.length > 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Upload with this mapping
+            </button>
+          </div>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,8 @@
+// Runs once when the server starts. Loading the config here makes a missing or
+// malformed environment variable stop the server instead of failing the first
+// request that needs it.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    await import("./lib/server-config");
+  }
+}
@@ -0,0 +1,127 @@
+import type { AnalysisResult, CellValue, ChartSpec, ChartType, DataRow, DbSearchResult } from "./types/analysis";
+
+const CHART_TYPES: ChartType[] = ["bar", "line", "pie"];
+
+// Treat numeric strings ("1,234.50", "$99") as numbers so they can be plotted
+export const toNumber = (value: CellValue): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+
+  const cleaned = value.replace(/[$€£,\s]/g, "");
+  if (!cleaned || !/^-?\d*\.?\d+$/.test(cleaned)) return null;
+
+  return Number(cleaned);
+};
+
+const isNumericColumn = (rows: DataRow[], column: string) =>
+  rows.length > 0 && rows.every((row) => row[column] === null || toNumber(row[column]) !== null);
+
+// ISO-like dates ("2024-03", "2024-03-01", "2024-03-01T09:30:00Z"). Date.parse
+// alone is too lenient: it reads labels such as "Q1" or "Week 2" as dates.
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}(-\d{2})?([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const isDateColumn = (rows: DataRow[], column: string) =>
+  rows.some((row) => row[column] !== null) &&
+  rows.every((row) => {
+    const value = row[column];
+    return value === null || (typeof value === "string" && ISO_DATE_PATTERN.test(value.trim()));
+  });
+
+// Pick a sensible chart when the backend didn't send one: the first
+// non-numeric column becomes the axis and every numeric column a series
+const inferChart = (columns: string[], rows: DataRow[]): ChartSpec | null => {
+  if (rows.length < 2) return null;
+
+  const numeric = columns.filter((column) => isNumericColumn(rows, column));
+  const x = columns.find((column) => !numeric.includes(column));
+
+  if (!x || numeric.length === 0) return null;
+
+  return {
+    type: isDateColumn(rows, x) ? "line" : "bar",
+    x,
+    y: numeric,
+  };
+};
+
+const isValidChart = (chart: unknown, columns: string[]): chart is ChartSpec => {
+  if (!chart || typeof chart !== "object") return false;
+
+  const spec = chart as Partial<ChartSpec>;
+  return (
+    CHART_TYPES.includes(spec.type as ChartType) &&
+    typeof spec.x === "string" &&
+    columns.includes(spec.x) &&
+    Array.isArray(spec.y) &&
+    spec.y.length > 0 &&
+    spec.y.every((column) => columns.includes(column))
+  );
+};
+
+/**
+ * Convert the loosely shaped `db_search` payload (and optional top-level chart
+ * spec) from a chat response into rows the UI can chart. Returns null when
+ * there is nothing tabular to show.
+ */
+// Rows are only checked to be objects, so a cell can hold anything; nested
+// values are shown as JSON rather than "[object Object]"
+const toCellValue = (value: unknown): CellValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+  return JSON.stringify(value) ?? String(value);
+};
+
+export function normalizeAnalysis(dbSearch: unknown, chart?: unknown): AnalysisResult | null {
+  if (!dbSearch) return null;
+
+  const result: Partial<DbSearchResult> = Array.isArray(dbSearch)
+    ? { rows: dbSearch }
+    : typeof dbSearch === "object"
+      ? (dbSearch as DbSearchResult)
+      : {};
+
+  if (!Array.isArray(result.rows) || result.rows.length === 0) return null;
+
+  let columns = Array.isArray(result.columns) ? result.columns.map(String) : [];
+  let rows: DataRow[];
+
+  if (Array.isArray(result.rows[0])) {
+    // Row arrays need column names to be meaningful
+    if (columns.length === 0) return null;
+    rows = (result.rows as unknown[][]).map((values) =>
+      Object.fromEntries(columns.map((column, index) => [column, toCellValue(values[index])]))
+    );
+  } else {
+    rows = (result.rows as Record<string, unknown>[])
+      .filter((row) => row && typeof row === "object")
+      .map((row) => Object.fromEntries(Object.entries(row).map(([column, value]) => [column, toCellValue(value)])));
+    if (columns.length === 0) {
+      columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+    }
+  }
+
+  if (rows.length === 0 || columns.length === 0) return null;
+
+  const spec = chart ?? result.chart;
+
+  return {
+    query: typeof result.query === "string" ? result.query : undefined,
+    columns,
+    rows,
+    chart: isValidChart(spec, columns) ? spec : inferChart(columns, rows),
+  };
+}
+
+const escapeCsvValue = (value: CellValue) => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(columns: string[], rows: DataRow[]): string {
+  const lines = [
+    columns.map(escapeCsvValue).join(","),
+    ...rows.map((row) => columns.map((column) => escapeCsvValue(row[column])).join(",")),
+  ];
+  return lines.join("\r\n");
+}
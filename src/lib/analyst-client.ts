@@ -0,0 +1,295 @@
+import { z } from "zod";
+
+// Contract of the analyst API. The schemas are the single source of truth
+// for request and response shapes: the browser client below validates what
+// our API routes return, and the routes validate what the upstream API
+// returns, so a backend change surfaces as a readable error instead of a
+// blank screen.
+
+const messageRoleSchema = z.enum(["user", "assistant"]);
+
+const timestampSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Invalid date");
+
+// Older deployments send neither id nor timestamp
+export const apiMessageSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String).optional(),
+  role: messageRoleSchema,
+  content: z.string(),
+  timestamp: timestampSchema.optional(),
+});
+
+export const healthResponseSchema = z.object({
+  status: z.string(),
+});
+
+export const sessionSchema = z.object({
+  session_id: z.string(),
+  title: z.string(),
+  created_at: z.string(),
+  last_updated: z.string(),
+  message_count: z.number().int().nonnegative(),
+});
+
+export const sessionsResponseSchema = z.object({
+  sessions: z.array(sessionSchema),
+});
+
+export const conversationResponseSchema = z.object({
+  session_id: z.string(),
+  user_id: z.coerce.string(),
+  messages: z.array(apiMessageSchema),
+  metadata: z.object({
+    created_at: timestampSchema,
+    last_updated: timestampSchema,
+    message_count: z.number().int().nonnegative(),
+    title: z.string(),
+  }),
+});
+
+export const chatRequestSchema = z.object({
+  question: z.string().trim().min(1, "question is required"),
+  session_id: z.string().uuid("session_id must be a UUID").optional(),
+  file_keys: z.array(z.string()).max(50).optional(),
+  stream: z.boolean().optional(),
+});
+
+// Query results and charts are checked in detail by normalizeAnalysis; here
+// they only need to be the right kind of value
+const dbRowSchema = z.record(z.unknown());
+
+export const chatResponseSchema = z.object({
+  generation: z.string(),
+  session_id: z.string(),
+  messages: z.array(apiMessageSchema).optional(),
+  // Raw query result; may also arrive as a bare array of row objects
+  db_search: z.union([dbRowSchema, z.array(dbRowSchema)]).nullish(),
+  chart: z.record(z.unknown()).nullish(),
+});
+
+// One event of a streamed answer: a token, or the final (full) response
+export const chatEventSchema = chatResponseSchema.partial().extend({
+  token: z.string().optional(),
+});
+
+export const sessionDeleteResponseSchema = z.object({
+  message: z.string().optional(),
+});
+
+export const ingestionStatusSchema = z.enum(["queued", "processing", "indexed", "failed"]);
+
+export const ingestionStatusResponseSchema = z.object({
+  s3_key: z.string(),
+  status: ingestionStatusSchema,
+  error: z.string().nullish(),
+  updated_at: z.string().optional(),
+});
+
+export const ingestionRetryResponseSchema = z.object({
+  message: z.string().optional(),
+});
+
+export type ApiMessage = z.infer<typeof apiMessageSchema>;
+export type HealthResponse = z.infer<typeof healthResponseSchema>;
+export type Session = z.infer<typeof sessionSchema>;
+export type SessionsResponse = z.infer<typeof sessionsResponseSchema>;
+export type ConversationResponse = z.infer<typeof conversationResponseSchema>;
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
+export type ChatResponse = z.infer<typeof chatResponseSchema>;
+export type ChatEvent = z.infer<typeof chatEventSchema>;
+export type SessionDeleteResponse = z.infer<typeof sessionDeleteResponseSchema>;
+export type IngestionStatusResponse = z.infer<typeof ingestionStatusResponseSchema>;
+
+// An answer that doesn't match the schema
+type InvalidResponseError = { kind: "invalid_response"; message: string; details: string };
+
+export type AnalystError =
+  // The request was answered with an error status
+  | { kind: "http"; status: number; message: string; details?: string }
+  // No answer at all (offline, DNS, aborted, ...)
+  | { kind: "network"; message: string }
+  | InvalidResponseError;
+
+export type AnalystResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: AnalystError };
+
+// Short, readable summary of why a value failed validation
+export const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .slice(0, 3)
+    .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+
+/** Validate an already-decoded response body against `schema`. */
+export function parseAnalystData<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown
+): { ok: true; data: z.infer<T> } | { ok: false; error: InvalidResponseError } {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      error: {
+        kind: "invalid_response",
+        message: "Unexpected response from the analyst API",
+        details: describeIssues(parsed.error),
+      },
+    };
+  }
+  return { ok: true, data: parsed.data };
+}
+
+// Turn an error status into an "http" error, keeping the `error`/`details`
+// fields our API routes (and FastAPI's `detail`) put in the body
+async function readErrorResponse(response: Response): Promise<AnalystError> {
+  const body: unknown = await response.json().catch(() => undefined);
+  const fields = (body && typeof body === "object" ? body : {}) as {
+    error?: unknown;
+    details?: unknown;
+    detail?: unknown;
+  };
+  const details = [fields.details, fields.detail].find((value): value is string => typeof value === "string");
+
+  return {
+    kind: "http",
+    status: response.status,
+    message: typeof fields.error === "string" ? fields.error : response.statusText || "Request failed",
+    details,
+  };
+}
+
+/** Read a JSON response and validate it against `schema`. */
+export async function parseAnalystResponse<T extends z.ZodTypeAny>(
+  response: Response,
+  schema: T
+): Promise<AnalystResult<z.infer<T>>> {
+  if (!response.ok) {
+    return { ok: false, error: await readErrorResponse(response) };
+  }
+  return parseAnalystData(schema, await response.json().catch(() => undefined));
+}
+
+// What an error status means to someone using the app
+const STATUS_MESSAGES: Record<number, string> = {
+  400: "The request was rejected",
+  403: "You don't have access to that",
+  404: "That no longer exists",
+  408: "The analyst took too long to answer",
+  429: "Too many requests, wait a moment and try again",
+  500: "The analyst API ran into a problem",
+  502: "The analyst API is unavailable",
+  503: "The analyst API is unavailable",
+  504: "The analyst took too long to answer",
+};
+
+/** One readable sentence about a failed call, for toasts and inline errors. */
+export function describeAnalystError(error: AnalystError): string {
+  switch (error.kind) {
+    case "network":
+      return "Can't reach the server. Check your connection and try again.";
+    case "invalid_response":
+      return `${error.message} (${error.details})`;
+    case "http": {
+      const summary = STATUS_MESSAGES[error.status]
+        ?? (error.status >= 500 ? STATUS_MESSAGES[500] : error.message);
+      return error.details ? `${summary}: ${error.details}` : summary;
+    }
+  }
+}
+
+type Fetcher = (input: string, init?: RequestInit) => Promise<Response>;
+
+const JSON_HEADERS = { Accept: "application/json" };
+
+/**
+ * Client for our analyst API routes (/api/health, /api/sessions, ...).
+ * `fetcher` does the actual request, e.g. fetchWithSession in the browser so
+ * an expired session is refreshed. No method throws; failures come back as
+ * `{ ok: false, error }`.
+ */
+export function createAnalystClient(fetcher: Fetcher, headers: Record<string, string> = {}) {
+  const request = async <T extends z.ZodTypeAny>(
+    schema: T,
+    url: string,
+    init: RequestInit = {}
+  ): Promise<AnalystResult<z.infer<T>>> => {
+    try {
+      const response = await fetcher(url, {
+        ...init,
+        headers: { ...headers, ...JSON_HEADERS, ...(init.headers as Record<string, string>) },
+      });
+      return await parseAnalystResponse(response, schema);
+    } catch (error) {
+      return {
+        ok: false,
+        error: { kind: "network", message: error instanceof Error ? error.message : "Network error" },
+      };
+    }
+  };
+
+  return {
+    getHealth: () => request(healthResponseSchema, "/api/health"),
+
+    listSessions: () => request(sessionsResponseSchema, "/api/sessions"),
+
+    getConversation: (sessionId: string) =>
+      request(conversationResponseSchema, `/api/conversation?session_id=${encodeURIComponent(sessionId)}`),
+
+    deleteSession: (sessionId: string) =>
+      request(sessionDeleteResponseSchema, `/api/sessions?session_id=${encodeURIComponent(sessionId)}`, {
+        method: "DELETE",
+      }),
+
+    getIngestionStatus: (s3Key: string) =>
+      request(ingestionStatusResponseSchema, `/api/ingestion/status?s3_key=${encodeURIComponent(s3Key)}`),
+
+    retryIngestion: (s3Key: string) =>
+      request(ingestionRetryResponseSchema, "/api/ingestion/retry", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ s3_key: s3Key }),
+      }),
+
+    /**
+     * Ask a question. Resolves with the raw response once it starts, so the
+     * caller can read the streamed answer with readChatStream and check each
+     * event with parseChatEvent.
+     */
+    chat: async (payload: ChatRequest, signal?: AbortSignal): Promise<AnalystResult<Response>> => {
+      const body = chatRequestSchema.safeParse(payload);
+      if (!body.success) {
+        return {
+          ok: false,
+          error: { kind: "http", status: 400, message: "Invalid request", details: describeIssues(body.error) },
+        };
+      }
+
+      let response: Response;
+      try {
+        response = await fetcher("/api/chat", {
+          method: "POST",
+          headers: {
+            ...headers,
+            "Content-Type": "application/json",
+            Accept: "text/event-stream, application/json",
+          },
+          body: JSON.stringify(body.data),
+          signal,
+        });
+      } catch (error) {
+        return {
+          ok: false,
+          error: { kind: "network", message: error instanceof Error ? error.message : "Network error" },
+        };
+      }
+
+      return response.ok
+        ? { ok: true, data: response }
+        : { ok: false, error: await readErrorResponse(response) };
+    },
+  };
+}
+
+export type AnalystClient = ReturnType<typeof createAnalystClient>;
+
+export const parseChatEvent = (data: unknown) => parseAnalystData(chatEventSchema, data);
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { z } from "zod";
+import { parseAnalystData } from "./analyst-client";
+import { getRequestToken, type AuthenticatedUser } from "./auth-server";
+import { analystConfig } from "./server-config";
+
+// Server side of the analyst API routes (/api/chat, /api/sessions, ...). The
+// analyst API trusts whatever user_id it is given, so every call carries the
+// id from the caller's verified token, never one the browser sent. The
+// upstream address and API key are server configuration.
+
+// Upstream endpoints the routes call
+export type AnalystPath =
+  | "health"
+  | "sessions"
+  | "session"
+  | "conversation"
+  | "chat"
+  | "ingestion/status"
+  | "ingestion/retry";
+
+export interface AnalystRequest {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  path: AnalystPath;
+  query?: Record<string, string>;
+  body?: Record<string, unknown>;
+  // Expected shape of a JSON answer; streamed answers pass through unchecked
+  response?: z.ZodTypeAny;
+}
+
+// Response headers passed back to the browser
+const FORWARDED_RESPONSE_HEADERS = ["content-type", "content-disposition", "x-request-id"];
+
+// Error body shared by all analyst routes; the client shows `details`
+export const analystError = (status: number, error: string, details: string) =>
+  NextResponse.json({ error, details, status }, { status });
+
+export const unauthorized = () => analystError(401, "Unauthorized", "Log in to use the analyst API");
+
+// FastAPI puts a string in `detail`, or for invalid input a list of
+// { loc, msg } objects; either way the client gets one readable line
+const formatDetail = (detail: unknown): string => {
+  if (typeof detail === "string") return detail;
+  if (Array.isArray(detail)) {
+    return detail
+      .map((item) => {
+        const { loc, msg } = (item ?? {}) as { loc?: unknown; msg?: unknown };
+        const field = Array.isArray(loc) ? loc.filter((part) => part !== "body").join(".") : "";
+        return typeof msg === "string" ? (field ? `${field}: ${msg}` : msg) : "";
+      })
+      .filter(Boolean)
+      .join("; ");
+  }
+  return "";
+};
+
+const getUpstreamUrl = (path: AnalystPath, query: Record<string, string>, userId: string) => {
+  const url = new URL(`${analystConfig.upstreamUrl.replace(/\/+$/, "")}/${path}`);
+  url.search = new URLSearchParams({ ...query, user_id: userId }).toString();
+  return url;
+};
+
+/**
+ * Call the analyst API for `user` and stream its answer back. Aborts if the
+ * browser goes away (e.g. the Stop button) or the API takes too long: a
+ * streamed answer only has to start within the stream start timeout and then
+ * runs for as long as the analysis takes, while a JSON answer has to arrive
+ * in full within the (much longer) response timeout.
+ */
+export async function forwardToAnalyst(
+  request: NextRequest,
+  user: AuthenticatedUser,
+  { method, path, query = {}, body, response: schema }: AnalystRequest
+): Promise<Response> {
+  const url = getUpstreamUrl(path, query, user.id);
+
+  const accept = request.headers.get("Accept") || "application/json";
+  const isStreaming = accept.includes("text/event-stream");
+
+  const headers = new Headers({
+    Accept: accept,
+    "X-API-Key": analystConfig.apiKey,
+  });
+  const token = getRequestToken(request);
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+  if (body) {
+    headers.set("Content-Type", "application/json");
+  }
+
+  const controller = new AbortController();
+  const abortUpstream = () => controller.abort();
+  request.signal.addEventListener("abort", abortUpstream);
+  const timeout = setTimeout(
+    abortUpstream,
+    isStreaming ? analystConfig.streamStartTimeoutMs : analystConfig.responseTimeoutMs
+  );
+
+  try {
+    console.log(`Analyst API ${method} ${url.pathname}`);
+
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: body ? JSON.stringify({ ...body, user_id: user.id }) : undefined,
+      signal: controller.signal,
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      const errorResponse = await response.json().catch(() => ({}));
+      console.log(`Analyst API ${response.status} for ${method} ${url.pathname}:`, JSON.stringify(errorResponse));
+
+      return NextResponse.json(
+        {
+          error: "Analyst API request failed",
+          details: formatDetail(errorResponse.detail ?? errorResponse.message) || response.statusText || "Unknown error",
+          status: response.status,
+          errorResponse,
+        },
+        { status: response.status }
+      );
+    }
+
+    const contentType = response.headers.get("content-type") || "";
+    if (schema && contentType.includes("application/json")) {
+      const data = await response.json().catch(() => undefined);
+      if (controller.signal.aborted) {
+        throw new Error("Aborted while reading the response");
+      }
+      const checked = parseAnalystData(schema, data);
+      if (!checked.ok) {
+        console.error(`Analyst API contract mismatch for ${method} ${url.pathname}:`, checked.error);
+        return analystError(502, checked.error.message, checked.error.details);
+      }
+      return NextResponse.json(checked.data, { headers: { "Cache-Control": "no-cache, no-transform" } });
+    }
+
+    const responseHeaders = new Headers({ "Cache-Control": "no-cache, no-transform" });
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = response.headers.get(name);
+      if (value) {
+        responseHeaders.set(name, value);
+      }
+    }
+
+    // Pass the body through untouched so streamed tokens reach the browser
+    // as soon as the API produces them
+    return new Response(response.body, { status: response.status, headers: responseHeaders });
+  } catch (error) {
+    if (request.signal.aborted) {
+      // The browser cancelled the request; nobody is waiting for a reply
+      return new Response(null, { status: 499 });
+    }
+
+    console.error(`Analyst API error for ${method} ${url.pathname}:`, error);
+
+    return controller.signal.aborted
+      ? analystError(504, "Analyst API request failed", "Upstream API did not respond in time")
+      : analystError(502, "Analyst API request failed", error instanceof Error ? error.message : "Unknown error");
+  } finally {
+    clearTimeout(timeout);
+  }
+}
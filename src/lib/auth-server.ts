@@ -0,0 +1,267 @@
+import { decodeJwt, jwtVerify, type JWTPayload } from 'jose';
+import type { NextResponse } from 'next/server';
+import { authConfig, serverConfig } from './server-config';
+import { ROLES, type Role, type User } from './types/auth';
+
+// Server-side verification of the access token issued by the auth backend.
+// The backend signs tokens with a shared HMAC secret (JWT_SECRET).
+
+export interface AuthenticatedUser {
+  id: string;
+  username?: string;
+  role?: Role;
+  organizationId?: string;
+}
+
+type AccessTokenPayload = JWTPayload & {
+  user_id?: string | number;
+  id?: string | number;
+  username?: string;
+  role?: string;
+  org_id?: string | number;
+  organization_id?: string | number;
+};
+
+const getSecret = () => {
+  const secret = serverConfig.jwtSecret;
+  return secret ? new TextEncoder().encode(secret) : null;
+};
+
+const getUserIdFromClaims = (payload: AccessTokenPayload) => {
+  const id = payload.user_id ?? payload.id ?? payload.sub;
+  return id === undefined || id === null || id === '' ? null : String(id);
+};
+
+const getUserFromClaims = (payload: AccessTokenPayload): AuthenticatedUser | null => {
+  const id = getUserIdFromClaims(payload);
+  if (!id) {
+    return null;
+  }
+
+  const organizationId = payload.org_id ?? payload.organization_id;
+
+  return {
+    id,
+    username: payload.username ?? (typeof payload.sub === 'string' ? payload.sub : undefined),
+    // Unknown roles are dropped, which leaves the least-privileged default
+    role: ROLES.find((role) => role === payload.role),
+    organizationId: organizationId === undefined || organizationId === null || organizationId === ''
+      ? undefined
+      : String(organizationId),
+  };
+};
+
+export async function verifyAccessToken(token: string): Promise<AuthenticatedUser | null> {
+  const secret = getSecret();
+
+  if (!secret) {
+    console.error('JWT_SECRET is not configured; rejecting all authenticated requests');
+    return null;
+  }
+
+  try {
+    const { payload } = await jwtVerify<AccessTokenPayload>(token, secret);
+    return getUserFromClaims(payload);
+  } catch {
+    // Expired, malformed or signed with another key
+    return null;
+  }
+}
+
+/**
+ * Read the user from a token's claims without verifying the signature.
+ * Only for tokens we just received from the auth backend ourselves.
+ */
+export function getTokenUser(token: string): AuthenticatedUser | null {
+  try {
+    return getUserFromClaims(decodeJwt<AccessTokenPayload>(token));
+  } catch {
+    return null;
+  }
+}
+
+// The backend names the organization in snake_case
+type Profile = Partial<User> & { organization_name?: string };
+type ProfileResponse = Profile & { user?: Profile };
+
+/**
+ * Fetch the full profile of the token's user from the auth backend. Falls back
+ * to `base` (id and username from the token) when the profile can't be loaded,
+ * so a profile outage never blocks signing in.
+ */
+export async function fetchUserProfile(token: string, base: User): Promise<User> {
+  try {
+    const response = await fetch(`${authConfig.apiUrl}/auth/me`, {
+      headers: { Authorization: `Bearer ${token}` },
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      console.error(`Profile request failed with status ${response.status}`);
+      return base;
+    }
+
+    const data: ProfileResponse = await response.json();
+    return toUser(data.user ?? data, base);
+  } catch (error) {
+    console.error('Failed to fetch user profile:', error);
+    return base;
+  }
+}
+
+type BackendLoginResult =
+  | { ok: true; accessToken: string; refreshToken?: string; user: User }
+  | { ok: false; status: number; error: string };
+
+// Sign in against the auth backend and load the user's profile. Shared by the
+// login route and by register, which signs the new account straight in.
+export async function loginWithBackend(credentials: { username: string; password: string }): Promise<BackendLoginResult> {
+  const response = await fetch(`${authConfig.apiUrl}/auth/login`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(credentials),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.access_token) {
+    return { ok: false, status: response.ok ? 502 : response.status, error: data.message || 'Login failed' };
+  }
+
+  // Backend returns { access_token, refresh_token? }; the user id is in the
+  // access token's claims
+  const user = await fetchUserProfile(data.access_token, {
+    ...toSessionUser(getTokenUser(data.access_token) ?? { id: '' }),
+    username: credentials.username,
+  });
+
+  return { ok: true, accessToken: data.access_token, refreshToken: data.refresh_token, user };
+}
+
+// The client-facing user for a token's claims, before any profile details
+export function toSessionUser(authenticated: AuthenticatedUser): User {
+  return {
+    id: authenticated.id,
+    username: authenticated.username ?? authenticated.id,
+    role: authenticated.role,
+    organizationId: authenticated.organizationId,
+  };
+}
+
+// Keep only the fields the client knows about. The id, role and organization
+// always come from the token, never from the response body.
+export function toUser(profile: Profile, base: User): User {
+  return {
+    id: base.id,
+    username: profile.username || base.username,
+    role: base.role,
+    organizationId: base.organizationId,
+    organizationName: profile.organizationName ?? profile.organization_name ?? base.organizationName,
+    fullname: profile.fullname ?? base.fullname,
+    email: profile.email ?? base.email,
+    phone: profile.phone ?? base.phone,
+    dob: profile.dob ?? base.dob,
+  };
+}
+
+// The access token lives only in an HttpOnly cookie, out of reach of page
+// scripts; the browser sends it with every same-origin request
+export const SESSION_COOKIE = 'bizmate_session';
+
+// Long-lived token for getting a new access token once it expires
+export const REFRESH_COOKIE = 'bizmate_refresh';
+
+// Used when a token doesn't say when it expires
+const DEFAULT_SESSION_MAX_AGE_SECONDS = 60 * 60 * 24;
+const DEFAULT_REFRESH_MAX_AGE_SECONDS = 60 * 60 * 24 * 30;
+
+export function getSessionCookieOptions(token: string, defaultMaxAge = DEFAULT_SESSION_MAX_AGE_SECONDS) {
+  let maxAge = defaultMaxAge;
+
+  try {
+    const { exp } = decodeJwt(token);
+    if (exp) {
+      maxAge = Math.max(0, exp - Math.floor(Date.now() / 1000));
+    }
+  } catch {
+    // Not a JWT we can read; fall back to the default lifetime
+  }
+
+  return {
+    httpOnly: true,
+    // Plain-HTTP localhost needs the cookie during development
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge,
+  };
+}
+
+// Store the tokens from a login or refresh. Backends that don't rotate
+// refresh tokens send none on refresh, so the current cookie is kept.
+export function setSessionCookies(response: NextResponse, accessToken: string, refreshToken?: string | null) {
+  response.cookies.set(SESSION_COOKIE, accessToken, getSessionCookieOptions(accessToken));
+
+  if (refreshToken) {
+    response.cookies.set(
+      REFRESH_COOKIE,
+      refreshToken,
+      getSessionCookieOptions(refreshToken, DEFAULT_REFRESH_MAX_AGE_SECONDS)
+    );
+  }
+}
+
+export function clearSessionCookies(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 });
+  response.cookies.set(REFRESH_COOKIE, '', { path: '/', maxAge: 0 });
+}
+
+// Set briefly when a page-load refresh sends the browser back. If the new
+// token is rejected as well (e.g. a JWT_SECRET that doesn't match the
+// backend's), the middleware goes to the login page instead of refreshing
+// again and bouncing between the two forever.
+export const REFRESHED_COOKIE = 'bizmate_refreshed';
+const REFRESHED_MAX_AGE_SECONDS = 30;
+
+export function markRefreshed(response: NextResponse) {
+  response.cookies.set(REFRESHED_COOKIE, '1', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: REFRESHED_MAX_AGE_SECONDS,
+  });
+}
+
+export function clearRefreshedMark(response: NextResponse) {
+  response.cookies.set(REFRESHED_COOKIE, '', { path: '/', maxAge: 0 });
+}
+
+const readCookie = (request: Request, name: string) => {
+  const cookies = request.headers.get('cookie') || '';
+  const match = cookies.split(/;\s*/).find((cookie) => cookie.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : null;
+};
+
+export function getRefreshToken(request: Request): string | null {
+  return readCookie(request, REFRESH_COOKIE);
+}
+
+export function wasJustRefreshed(request: Request): boolean {
+  return readCookie(request, REFRESHED_COOKIE) !== null;
+}
+
+// The caller's access token: the session cookie, or a bearer header for
+// non-browser clients
+export function getRequestToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  return header?.match(/^Bearer\s+(.+)$/i)?.[1] ?? readCookie(request, SESSION_COOKIE);
+}
+
+// Read and verify the access token sent with a request
+export async function getAuthenticatedUser(request: Request): Promise<AuthenticatedUser | null> {
+  const token = getRequestToken(request);
+  return token ? verifyAccessToken(token) : null;
+}
@@ -0,0 +1,106 @@
+// Helpers for reading incremental chat responses from the analyst API.
+// The backend may answer with Server-Sent Events, a plain chunked text body,
+// or (for older deployments) a single JSON document.
+
+export type StreamChunk =
+  | { type: "token"; content: string }
+  | { type: "json"; data: unknown };
+
+const SSE_DONE = "[DONE]";
+
+// Turn one SSE "data:" payload into a chunk. JSON objects are passed through
+// untouched so the caller can decide what they mean; anything else is text.
+const parseEventData = (data: string): StreamChunk | null => {
+  if (!data || data === SSE_DONE) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return { type: "token", content: data };
+  }
+
+  // Events are objects; a token that happens to be valid JSON ("42", "true",
+  // "null", ...) is still just text
+  return parsed !== null && typeof parsed === "object" && !Array.isArray(parsed)
+    ? { type: "json", data: parsed }
+    : { type: "token", content: data };
+};
+
+// Parse a single SSE event block (lines separated by "\n", no trailing blank line)
+const parseEventBlock = (block: string): string | null => {
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    // Lines starting with ":" are comments / keep-alives
+    if (!line || line.startsWith(":")) continue;
+
+    if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).replace(/^ /, ""));
+    }
+  }
+
+  return dataLines.length ? dataLines.join("\n") : null;
+};
+
+/**
+ * Read a fetch Response body and invoke `onChunk` for every piece of content
+ * as it arrives. Resolves once the stream is exhausted; rejects with an
+ * AbortError if the request signal is aborted mid-stream.
+ */
+export async function readChatStream(
+  response: Response,
+  onChunk: (chunk: StreamChunk) => void
+): Promise<void> {
+  const contentType = response.headers.get("Content-Type") || "";
+
+  // Non-streaming backend: hand back the whole JSON document in one go
+  if (contentType.includes("application/json") || !response.body) {
+    onChunk({ type: "json", data: await response.json() });
+    return;
+  }
+
+  const isEventStream = contentType.includes("text/event-stream");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const text = decoder.decode(value, { stream: true });
+
+    if (!isEventStream) {
+      // Plain chunked transfer: every chunk is raw answer text
+      if (text) onChunk({ type: "token", content: text });
+      continue;
+    }
+
+    // Normalised on the whole buffer: a "\r\n" can be split across chunks
+    buffer = (buffer + text).replace(/\r\n/g, "\n");
+
+    // SSE events are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = parseEventBlock(block);
+      const chunk = data !== null ? parseEventData(data) : null;
+      if (chunk) onChunk(chunk);
+
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  // Flush whatever is left after the stream closes
+  const tail = decoder.decode();
+  if (isEventStream) {
+    const data = parseEventBlock((buffer + tail).replace(/\r\n/g, "\n"));
+    const chunk = data !== null ? parseEventData(data) : null;
+    if (chunk) onChunk(chunk);
+  } else if (tail) {
+    onChunk({ type: "token", content: tail });
+  }
+}
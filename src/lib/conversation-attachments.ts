@@ -0,0 +1,43 @@
+import type { MessageAttachment } from "@/store/chat-store";
+
+// Documents attached to a saved session. The analyst API doesn't keep them,
+// so they're stored in localStorage (per account and session) and put back
+// when the conversation is opened again, even after a reload.
+
+const STORAGE_PREFIX = "bizmate:attachments";
+
+const getStorageKey = (userId: string, sessionId: string) => `${STORAGE_PREFIX}:${userId}:${sessionId}`;
+
+// localStorage is missing during server rendering and can throw when it's
+// full or disabled; attachments are then only kept in memory
+const withStorage = <T>(run: (storage: Storage) => T, fallback: T): T => {
+  if (typeof localStorage === "undefined") return fallback;
+  try {
+    return run(localStorage);
+  } catch (error) {
+    console.error("Failed to access stored attachments:", error);
+    return fallback;
+  }
+};
+
+const isAttachment = (value: unknown): value is MessageAttachment => {
+  const { s3Key, name } = (value ?? {}) as Partial<Record<keyof MessageAttachment, unknown>>;
+  return typeof s3Key === "string" && typeof name === "string";
+};
+
+export function loadConversationAttachments(userId: string, sessionId: string): MessageAttachment[] {
+  return withStorage((storage) => {
+    const stored: unknown = JSON.parse(storage.getItem(getStorageKey(userId, sessionId)) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isAttachment) : [];
+  }, []);
+}
+
+export function saveConversationAttachments(userId: string, sessionId: string, attachments: MessageAttachment[]) {
+  withStorage((storage) => {
+    storage.setItem(getStorageKey(userId, sessionId), JSON.stringify(attachments));
+  }, undefined);
+}
+
+export function removeConversationAttachments(userId: string, sessionId: string) {
+  withStorage((storage) => storage.removeItem(getStorageKey(userId, sessionId)), undefined);
+}
@@ -0,0 +1,42 @@
+// Message times in the chat: relative while recent, a clock time after
+// that, and one label per day for the separators between messages.
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Beyond this a relative time ("7 hours ago") is harder to read than a clock time
+const RELATIVE_LIMIT_MS = 6 * HOUR_MS;
+
+const relativeFormat = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" });
+
+export const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+/** "just now", "5 minutes ago", "2 hours ago", or e.g. "14:05". */
+export function formatMessageTime(date: Date, now: Date = new Date()): string {
+  const elapsed = now.getTime() - date.getTime();
+
+  if (elapsed < MINUTE_MS) return "just now";
+  if (elapsed < HOUR_MS) return relativeFormat.format(-Math.floor(elapsed / MINUTE_MS), "minute");
+  if (elapsed < RELATIVE_LIMIT_MS) return relativeFormat.format(-Math.floor(elapsed / HOUR_MS), "hour");
+
+  return date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+/** "Today", "Yesterday", or the full date, for day separators. */
+export function formatDayLabel(date: Date, now: Date = new Date()): string {
+  if (isSameDay(date, now)) return "Today";
+
+  const yesterday = new Date(now);
+  yesterday.setDate(now.getDate() - 1);
+  if (isSameDay(date, yesterday)) return "Yesterday";
+
+  return date.toLocaleDateString(undefined, {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    ...(date.getFullYear() !== now.getFullYear() && { year: "numeric" }),
+  });
+}
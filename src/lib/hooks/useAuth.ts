@@ -1,53 +1,80 @@
-import { useState, useEffect } from 'react';
+import { useEffect } from 'react';
 import axios from 'axios';
 import { useRouter } from 'next/navigation';
-import { AuthState, LoginCredentials, RegisterCredentials, User } from '../types/auth';
+import { AuthResponse, LoginCredentials, RegisterCredentials } from '../types/auth';
+import type {
+  ChangePasswordFormData,
+  ForgotPasswordFormData,
+  ProfileFormData,
+  ResetPasswordFormData,
+} from '../schemas/auth';
+import { http, refreshSession } from '../http';
+import { useAuthStore } from '@/store/auth-store';
+import { useChatStore } from '@/store/chat-store';
+import { useSessionStore } from '@/store/session-store';
+
+// Older builds kept the session here; it's now an HttpOnly cookie
+const LEGACY_STORAGE_KEYS = ['token', 'user'];
+
+// Prefer the message our API routes put in `error` over axios' generic one
+const getRequestError = (error: unknown, fallback: string) => {
+  const message = (error as { response?: { data?: { error?: unknown } } }).response?.data?.error;
+  if (typeof message === 'string') return message;
+  return error instanceof Error ? error.message : fallback;
+};
+
+// The session cookie can't be read from script, so ask the server who we
+// are. Done once per page load, however many components use the hook.
+let sessionCheck: Promise<void> | null = null;
+
+const checkSession = () => {
+  if (!sessionCheck) {
+    LEGACY_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key));
+
+    const fetchMe = async () => {
+      const { data } = await axios.get('/api/auth/me');
+      return (data as AuthResponse).user ?? null;
+    };
+
+    sessionCheck = fetchMe()
+      // An expired access token can still be renewed with the refresh token
+      .catch(async () => ((await refreshSession()) ? fetchMe() : null))
+      .catch(() => null)
+      .then((user) => {
+        // Signing in while the check ran wins over its answer
+        if (useAuthStore.getState().isLoading) {
+          useAuthStore.getState().setUser(user);
+        }
+      });
+  }
+  return sessionCheck;
+};
 
 const useAuth = () => {
   const router = useRouter();
-  const [authState, setAuthState] = useState<AuthState>({
-    user: null,
-    token: null,
-    isAuthenticated: false,
-    isLoading: true,
-  });
+  const user = useAuthStore((state) => state.user);
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const isLoading = useAuthStore((state) => state.isLoading);
+  const setUser = useAuthStore((state) => state.setUser);
 
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    const user = localStorage.getItem('user');
-    
-    if (token && user) {
-      setAuthState({
-        user: JSON.parse(user),
-        token,
-        isAuthenticated: true,
-        isLoading: false,
-      });
-    } else {
-      setAuthState(prev => ({ ...prev, isLoading: false }));
-    }
+    checkSession();
   }, []);
 
   const login = async (credentials: LoginCredentials) => {
     try {
       const { data } = await axios.post('/api/auth/login', credentials);
-      const { user, token } = data;
+      const { user } = data as AuthResponse;
+      if (!user) throw new Error('Login failed');
 
-      localStorage.setItem('token', token);
-      localStorage.setItem('user', JSON.stringify(user));
-
-      setAuthState({
-        user,
-        token,
-        isAuthenticated: true,
-        isLoading: false,
-      });
+      setUser(user);
+      useSessionStore.getState().clearExpired();
 
       return { success: true };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Login failed',
+        error: getRequestError(error, 'Login failed'),
       };
     }
   };
@@ -55,47 +82,126 @@ const useAuth = () => {
   const register = async (credentials: RegisterCredentials) => {
     try {
       const { data } = await axios.post('/api/auth/register', credentials);
-      const { user, token } = data;
+      const { user, message, verificationRequired } = data as AuthResponse;
 
-      localStorage.setItem('token', token);
-      localStorage.setItem('user', JSON.stringify(user));
+      // The new account is signed in straight away unless it still has to
+      // verify its email
+      if (user) {
+        setUser(user);
+        useSessionStore.getState().clearExpired();
+      }
 
-      setAuthState({
-        user,
-        token,
-        isAuthenticated: true,
-        isLoading: false,
-      });
+      return {
+        success: true,
+        signedIn: Boolean(user),
+        verificationRequired: Boolean(verificationRequired),
+        message,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: getRequestError(error, 'Registration failed'),
+      };
+    }
+  };
+
+  const requestPasswordReset = async (request: ForgotPasswordFormData) => {
+    try {
+      const { data } = await axios.post('/api/auth/forgot-password', request);
+      return { success: true, message: (data as AuthResponse).message };
+    } catch (error) {
+      return {
+        success: false,
+        error: getRequestError(error, 'Could not send the reset link'),
+      };
+    }
+  };
+
+  const resetPassword = async (request: ResetPasswordFormData) => {
+    try {
+      await axios.post('/api/auth/reset-password', request);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: getRequestError(error, 'Password reset failed'),
+      };
+    }
+  };
 
+  const verifyEmail = async (token: string) => {
+    try {
+      await axios.post('/api/auth/verify-email', { token });
       return { success: true };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Registration failed',
+        error: getRequestError(error, 'Email verification failed'),
       };
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
-    
-    setAuthState({
-      user: null,
-      token: null,
-      isAuthenticated: false,
-      isLoading: false,
-    });
+  const updateProfile = async (profile: ProfileFormData) => {
+    try {
+      const { data } = await http.put('/api/profile', profile);
+      const { user } = data as AuthResponse;
+      if (!user) throw new Error('Profile update failed');
+
+      setUser(user);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: getRequestError(error, 'Profile update failed'),
+      };
+    }
+  };
+
+  const changePassword = async (passwords: ChangePasswordFormData) => {
+    try {
+      await http.post('/api/profile/password', passwords);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: getRequestError(error, 'Password change failed'),
+      };
+    }
+  };
+
+  // The chat store follows the logged-in user; nobody can pick a user id
+  useEffect(() => {
+    if (isLoading) return;
+    useChatStore.getState().setUserId(user?.id ?? '');
+  }, [isLoading, user?.id]);
+
+  const logout = async () => {
+    // Clear the session cookie; the local state goes either way
+    try {
+      await axios.post('/api/auth/logout');
+    } catch (error) {
+      console.error('Failed to clear session cookie:', error);
+    }
+
+    setUser(null);
 
     router.push('/login');
   };
 
   return {
-    ...authState,
+    user,
+    isAuthenticated,
+    isLoading,
     login,
     register,
+    requestPasswordReset,
+    resetPassword,
+    verifyEmail,
+    updateProfile,
+    changePassword,
     logout,
   };
 };
 
-export default useAuth; 
\ No newline at end of file
+export default useAuth;
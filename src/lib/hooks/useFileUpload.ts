@@ -0,0 +1,176 @@
+import { useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { useChatStore, type UploadedFile } from '@/store/chat-store';
+import { uploadConfig } from '../config';
+import { MultipartUpload } from '../s3-multipart';
+import { saveImportMapping } from '../s3-utils';
+import type { ImportMapping } from '../types/import-mapping';
+import { UploadError } from '../upload-validation';
+
+const MAX_FILE_SIZE_MB = Math.round(uploadConfig.maxFileSize / (1024 * 1024));
+
+// Files uploaded side by side; each one is itself split into parallel parts
+const MAX_CONCURRENT_UPLOADS = 3;
+
+type ActiveUpload = {
+  upload: MultipartUpload;
+  // Column mapping of a spreadsheet import, saved next to the file once it's stored
+  mapping?: ImportMapping;
+};
+
+type QueuedFile = { file: File; mapping?: ImportMapping };
+
+// In-flight uploads by file ID. Kept outside the store because the uploader
+// holds a File and abort controllers, which don't belong in React state.
+const activeUploads = new Map<string, ActiveUpload>();
+
+// Uploads files straight to S3 and tracks their progress in the chat store so
+// both the upload page and the chat composer see the same list.
+const useFileUpload = () => {
+  const { addFile, updateFile } = useChatStore();
+
+  // Drive an upload until it completes, pauses or fails, mirroring its state
+  // into the store. Resolves with the S3 key once the file is stored. Called
+  // again by resumeUpload, so whichever run completes the upload also saves
+  // the import mapping.
+  const runUpload = useCallback(async (fileId: string) => {
+    const active = activeUploads.get(fileId);
+    if (!active) return null;
+    const { upload, mapping } = active;
+
+    updateFile(fileId, { status: 'uploading', error: undefined, errorCode: undefined });
+
+    try {
+      const outcome = await upload.start();
+
+      if (outcome === 'paused') {
+        updateFile(fileId, { status: 'paused' });
+        return null;
+      }
+
+      activeUploads.delete(fileId);
+      // Stored in S3; the backend still has to index it before chat can use it
+      updateFile(fileId, {
+        status: 'processing',
+        s3Key: upload.key!,
+        progress: 100,
+        ingestion: { status: 'queued' },
+      });
+
+      if (mapping) {
+        try {
+          await saveImportMapping(upload.key!, mapping);
+        } catch (error) {
+          // The file itself is stored; flag it so the user knows ingestion may misread it
+          updateFile(fileId, {
+            error: error instanceof Error ? error.message : 'Failed to save column mapping',
+          });
+        }
+      }
+
+      return upload.key;
+    } catch (error) {
+      console.error(`Upload error for ${upload.file.name}:`, error);
+
+      const errorCode = error instanceof UploadError ? error.code : undefined;
+
+      // The server rejected the file itself; retrying won't help
+      if (errorCode) {
+        activeUploads.delete(fileId);
+      }
+
+      updateFile(fileId, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Failed to upload file',
+        errorCode,
+      });
+
+      return null;
+    }
+  }, [updateFile]);
+
+  const uploadQueued = useCallback(async (files: QueuedFile[]) => {
+    // Every file shows up in the list straight away and waits for a free slot
+    const queue = files.map(({ file, mapping }) => {
+      const fileId = uuidv4();
+      addFile({
+        id: fileId,
+        name: file.name,
+        size: file.size,
+        status: 'uploading',
+        progress: 0,
+      });
+      return { fileId, file, mapping };
+    });
+
+    const uploadOne = async ({ fileId, file, mapping }: (typeof queue)[number]): Promise<UploadedFile | null> => {
+      // Check file size
+      if (file.size > uploadConfig.maxFileSize) {
+        updateFile(fileId, {
+          status: 'error',
+          error: `File too large. Maximum size is ${MAX_FILE_SIZE_MB}MB.`,
+          errorCode: 'FILE_TOO_LARGE',
+        });
+        return null;
+      }
+
+      const upload = new MultipartUpload(file, {
+        onProgress: ({ percent }) => updateFile(fileId, { progress: percent }),
+      });
+      activeUploads.set(fileId, { upload, mapping });
+
+      const s3Key = await runUpload(fileId);
+      return s3Key
+        ? { id: fileId, name: file.name, size: file.size, status: 'processing', s3Key, progress: 100, ingestion: { status: 'queued' } }
+        : null;
+    };
+
+    // A few uploads at a time; each worker takes the next file when it's done
+    const results: (UploadedFile | null)[] = [];
+    let next = 0;
+    const worker = async () => {
+      while (next < queue.length) {
+        const index = next++;
+        results[index] = await uploadOne(queue[index]);
+      }
+    };
+    await Promise.allSettled(
+      Array.from({ length: Math.min(MAX_CONCURRENT_UPLOADS, queue.length) }, worker)
+    );
+
+    // In the order the files were picked
+    return results.filter((uploaded): uploaded is UploadedFile => uploaded !== null);
+  }, [addFile, updateFile, runUpload]);
+
+  const uploadFiles = useCallback(async (fileList: FileList | File[] | null) => {
+    if (!fileList) return [];
+    return uploadQueued(Array.from(fileList, (file) => ({ file })));
+  }, [uploadQueued]);
+
+  // Upload a spreadsheet together with the column mapping the user confirmed
+  const uploadImport = useCallback(async (file: File, mapping: ImportMapping) => {
+    const [uploaded] = await uploadQueued([{ file, mapping }]);
+    return uploaded ?? null;
+  }, [uploadQueued]);
+
+  const pauseUpload = useCallback((fileId: string) => {
+    activeUploads.get(fileId)?.upload.pause();
+  }, []);
+
+  // Continue a paused upload, or retry the parts of a failed one
+  const resumeUpload = useCallback((fileId: string) => runUpload(fileId), [runUpload]);
+
+  // Abandon an upload and release the parts already stored in S3
+  const cancelUpload = useCallback(async (fileId: string) => {
+    const active = activeUploads.get(fileId);
+    if (!active) return;
+    activeUploads.delete(fileId);
+    await active.upload.abort();
+  }, []);
+
+  const canResume = useCallback((fileId: string) => activeUploads.has(fileId), []);
+
+  return { uploadFiles, uploadImport, pauseUpload, resumeUpload, cancelUpload, canResume };
+};
+
+export default useFileUpload;
@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { useChatStore } from '@/store/chat-store';
+
+const POLL_INTERVAL_MS = 5000;
+
+// Keeps the ingestion status of uploaded documents fresh while mounted.
+// Only files whose status is unknown or still in progress are queried.
+const useIngestionPolling = () => {
+  const pollIngestion = useChatStore((state) => state.pollIngestion);
+  // Status requests are scoped to a user
+  const userId = useChatStore((state) => state.userId);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    pollIngestion();
+    const interval = setInterval(pollIngestion, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [userId, pollIngestion]);
+};
+
+export default useIngestionPolling;
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+// The current time, refreshed every `intervalMs`, so relative times
+// ("5 minutes ago") stay correct while the page is open
+const useNow = (intervalMs = 60000) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+};
+
+export default useNow;
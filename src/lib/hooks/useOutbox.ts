@@ -0,0 +1,32 @@
+import { useEffect } from 'react';
+import { useChatStore } from '@/store/chat-store';
+import { useSessionStore } from '@/store/session-store';
+
+// Sends queued chat questions whenever that becomes possible again: when the
+// browser comes back online or the user signs back in after their session
+// expired. Backed-off retries are scheduled by the store itself.
+const useOutbox = () => {
+  const setOnline = useChatStore((state) => state.setOnline);
+  const flushOutbox = useChatStore((state) => state.flushOutbox);
+  const isExpired = useSessionStore((state) => state.isExpired);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, [setOnline]);
+
+  useEffect(() => {
+    if (!isExpired) {
+      flushOutbox();
+    }
+  }, [isExpired, flushOutbox]);
+};
+
+export default useOutbox;
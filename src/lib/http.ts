@@ -0,0 +1,65 @@
+import axios from "axios";
+import { useSessionStore } from "@/store/session-store";
+
+// HTTP helpers for calls to our own API routes. The access token is short
+// lived: on a 401 the session is refreshed once and the request replayed.
+// If the refresh fails too, the "session expired" prompt is shown.
+
+// Login, refresh and friends answer 401 as part of their normal flow
+const isAuthRoute = (url?: string) => Boolean(url?.startsWith("/api/auth/"));
+
+let activeRefresh: Promise<boolean> | null = null;
+
+// Refresh the session cookies. Concurrent callers share one request.
+export function refreshSession(): Promise<boolean> {
+  if (!activeRefresh) {
+    activeRefresh = fetch("/api/auth/refresh", { method: "POST" })
+      .then((response) => response.ok)
+      .catch(() => false)
+      .finally(() => {
+        activeRefresh = null;
+      });
+  }
+  return activeRefresh;
+}
+
+export const http = axios.create({});
+
+type RequestConfig = Parameters<typeof http.request>[0] & { _retried?: boolean };
+
+http.interceptors.response.use(
+  (response) => response,
+  async (error: unknown) => {
+    const { config, response } = error as { config?: RequestConfig; response?: { status?: number } };
+
+    if (response?.status !== 401 || !config || isAuthRoute(config.url)) {
+      throw error;
+    }
+
+    if (!config._retried && await refreshSession()) {
+      return http.request({ ...config, _retried: true } as RequestConfig);
+    }
+
+    useSessionStore.getState().markExpired();
+    throw error;
+  }
+);
+
+// fetch() with the same refresh-and-retry behaviour, for streaming requests.
+// The body must be replayable (e.g. a string), as it is sent twice on retry.
+export async function fetchWithSession(input: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(input, init);
+  if (response.status !== 401 || isAuthRoute(input)) {
+    return response;
+  }
+
+  if (await refreshSession()) {
+    const retried = await fetch(input, init);
+    if (retried.status !== 401) {
+      return retried;
+    }
+  }
+
+  useSessionStore.getState().markExpired();
+  return response;
+}
@@ -0,0 +1,106 @@
+import type { MessageAttachment } from "@/store/chat-store";
+
+// Chat questions that haven't reached the analyst yet, kept in IndexedDB so
+// they survive a reload or a dropped connection. Entries are per account;
+// the store shows them as "queued" messages and sends them when it can.
+
+export type OutboxEntry = {
+  // Same id as the user message in the conversation
+  id: string;
+  userId: string;
+  // Session (or not yet saved local conversation) the question belongs to
+  conversationId: string;
+  conversationTitle: string;
+  content: string;
+  attachments: MessageAttachment[];
+  createdAt: number;
+  // Failed delivery attempts so far
+  attempts: number;
+  // Epoch ms before which the entry isn't retried
+  nextAttemptAt: number;
+};
+
+const DB_NAME = "bizmate";
+const DB_VERSION = 1;
+const STORE_NAME = "outbox";
+
+// Give up on automatic retries after this many attempts
+export const MAX_SEND_ATTEMPTS = 6;
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+// Exponential backoff with some jitter, so tabs don't retry in lockstep
+export const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS) * (0.8 + Math.random() * 0.4);
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+// Resolves null where IndexedDB isn't available (server rendering, some
+// private browsing modes); the outbox then only lives in memory
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!database) {
+    database = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex("userId", "userId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("Failed to open the outbox:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return database;
+};
+
+// Run one request against the outbox store
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Queued questions of `userId`, oldest first. */
+export async function loadOutbox(userId: string): Promise<OutboxEntry[]> {
+  try {
+    const entries = await withStore<OutboxEntry[]>("readonly", (store) =>
+      store.index("userId").getAll(userId)
+    );
+    return (entries ?? []).sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error("Failed to read the outbox:", error);
+    return [];
+  }
+}
+
+export async function saveOutboxEntry(entry: OutboxEntry): Promise<void> {
+  try {
+    await withStore("readwrite", (store) => store.put(entry));
+  } catch (error) {
+    console.error("Failed to save to the outbox:", error);
+  }
+}
+
+export async function removeOutboxEntry(id: string): Promise<void> {
+  try {
+    await withStore("readwrite", (store) => store.delete(id));
+  } catch (error) {
+    console.error("Failed to remove from the outbox:", error);
+  }
+}
@@ -0,0 +1,44 @@
+import type { Role, User } from './types/auth';
+import { isKeyInScope, isKeyUploadedBy } from './storage-keys';
+
+// What each role may do. The API routes check the same table, so hiding a
+// button here is a convenience, not the protection.
+export type Permission =
+  | 'chat'
+  | 'documents:upload'
+  // Delete documents the user uploaded themselves
+  | 'documents:delete_own'
+  // Delete any document in the organization
+  | 'documents:delete_any'
+  | 'sessions:delete';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: ['chat', 'documents:upload', 'documents:delete_own', 'documents:delete_any', 'sessions:delete'],
+  manager: ['chat', 'documents:upload', 'documents:delete_own'],
+  staff: ['chat', 'documents:upload'],
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  staff: 'Staff',
+};
+
+type RoleHolder = Pick<User, 'role' | 'organizationId'>;
+type DocumentHolder = Pick<User, 'id' | 'role' | 'organizationId'>;
+
+// Without a role claim, a member of an organization gets the least access and
+// a solo account owns its own workspace
+export function getRole(user: RoleHolder): Role {
+  return user.role ?? (user.organizationId ? 'staff' : 'owner');
+}
+
+export function can(user: RoleHolder | null | undefined, permission: Permission): boolean {
+  if (!user) return false;
+  return ROLE_PERMISSIONS[getRole(user)].includes(permission);
+}
+
+export function canDeleteDocument(user: DocumentHolder | null | undefined, key: string): boolean {
+  if (!user || !isKeyInScope(key, user)) return false;
+  return can(user, 'documents:delete_any') || (can(user, 'documents:delete_own') && isKeyUploadedBy(key, user));
+}
@@ -0,0 +1,14 @@
+// `next` parameters come from the query string, so anyone can craft them.
+// Only follow ones that resolve to this site: URL parsing drops tabs and
+// newlines, which turns e.g. "/\t/evil.com" into a link to another host, so
+// the check is on the parsed origin rather than the raw string.
+export function getSafeRedirectPath(next: string | null, origin: string, fallback = '/chat'): string {
+  if (!next) return fallback;
+
+  try {
+    const url = new URL(next, origin);
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : fallback;
+  } catch {
+    return fallback;
+  }
+}
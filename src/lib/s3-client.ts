@@ -0,0 +1,30 @@
+import { S3Client } from "@aws-sdk/client-s3";
+import { awsConfig } from "./server-config";
+
+// Shared S3 client for server-side API routes
+export const s3Client = new S3Client({
+  region: awsConfig.region,
+  credentials: {
+    accessKeyId: awsConfig.accessKeyId,
+    secretAccessKey: awsConfig.secretAccessKey,
+  },
+});
+
+// Multipart uploads: S3 requires every part except the last to be >= 5MB and
+// allows at most 10,000 parts per upload
+export const MIN_PART_SIZE = 8 * 1024 * 1024;
+export const MAX_PARTS = 10000;
+
+// How long presigned part URLs stay valid
+export const PRESIGNED_URL_EXPIRY_SECONDS = 3600;
+
+export function getPartSize(fileSize: number): number {
+  return Math.max(MIN_PART_SIZE, Math.ceil(fileSize / MAX_PARTS));
+}
+
+// Column mappings for imported spreadsheets are stored next to the file
+export const MAPPING_SUFFIX = ".mapping.json";
+
+export function getMappingKey(key: string): string {
+  return `${key}${MAPPING_SUFFIX}`;
+}
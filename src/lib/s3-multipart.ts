@@ -0,0 +1,304 @@
+import { fetchWithSession, http } from "./http";
+import { UploadError, type UploadErrorCode } from "./upload-validation";
+
+// Browser-side multipart uploader. The file is split into parts that are PUT
+// straight to S3 using presigned URLs from /api/s3/multipart/*, so large POS
+// exports never pass through our server.
+//
+// The bucket's CORS configuration must allow PUT from the app's origin and
+// expose the "ETag" header, otherwise completed parts cannot be recorded.
+
+interface CreateResponse {
+  success: boolean;
+  key?: string;
+  uploadId?: string;
+  partSize?: number;
+  partCount?: number;
+  error?: string;
+}
+
+interface SignResponse {
+  success: boolean;
+  urls?: { partNumber: number; url: string }[];
+  error?: string;
+}
+
+export type UploadProgress = {
+  loaded: number;
+  total: number;
+  percent: number;
+};
+
+export type UploadOutcome = "completed" | "paused";
+
+type MultipartUploadOptions = {
+  onProgress?: (progress: UploadProgress) => void;
+  // Parts uploaded in parallel
+  concurrency?: number;
+  // Attempts per part before the whole upload is reported as failed
+  maxRetries?: number;
+};
+
+const RETRY_BASE_DELAY_MS = 1000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type ApiErrorBody = { error?: string; code?: UploadErrorCode };
+
+const getApiError = (error: unknown) =>
+  (error as { response?: { data?: ApiErrorBody } })?.response?.data;
+
+const getErrorMessage = (error: unknown) => {
+  // Prefer the message our API routes put in the response body
+  const apiError = getApiError(error)?.error;
+  if (apiError) return apiError;
+  return error instanceof Error ? error.message : "Unknown error";
+};
+
+// PUT a blob with XHR, which (unlike fetch) reports upload progress.
+// Resolves with the ETag S3 assigned to the part.
+const putPart = (url: string, blob: Blob, signal: AbortSignal, onProgress: (loaded: number) => void) =>
+  new Promise<string>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(`S3 rejected part with status ${xhr.status}`));
+        return;
+      }
+
+      const etag = xhr.getResponseHeader("ETag");
+      if (!etag) {
+        reject(new Error("S3 did not expose the part ETag (check the bucket CORS ExposeHeaders)"));
+        return;
+      }
+      resolve(etag);
+    };
+    xhr.onerror = () => reject(new Error("Network error while uploading part"));
+    xhr.onabort = () => reject(new Error("Upload cancelled"));
+
+    signal.addEventListener("abort", () => xhr.abort());
+    xhr.send(blob);
+  });
+
+export class MultipartUpload {
+  readonly file: File;
+  key: string | null = null;
+
+  private uploadId: string | null = null;
+  private partSize = 0;
+  private partCount = 0;
+  private completedParts = new Map<number, string>();
+  private partProgress = new Map<number, number>();
+  private controllers = new Set<AbortController>();
+  private paused = false;
+  private failed = false;
+  private completed = false;
+  // Bumped by every start() and pause(); a run whose generation is no longer
+  // current stops sending parts, so a paused run can't overlap the next one
+  private generation = 0;
+  private activeRun: Promise<UploadOutcome> | null = null;
+  private options: Required<Omit<MultipartUploadOptions, "onProgress">> & Pick<MultipartUploadOptions, "onProgress">;
+
+  constructor(file: File, options: MultipartUploadOptions = {}) {
+    this.file = file;
+    this.options = {
+      concurrency: 3,
+      maxRetries: 3,
+      ...options,
+    };
+  }
+
+  get isPaused() {
+    return this.paused;
+  }
+
+  /**
+   * Upload every part that hasn't been stored yet. Safe to call again after a
+   * pause or a failure: parts that already succeeded are not re-sent. A new
+   * run waits for the previous one to wind down before it starts.
+   */
+  start(): Promise<UploadOutcome> {
+    const generation = ++this.generation;
+    this.paused = false;
+
+    const previous = this.activeRun;
+    const run = (async () => {
+      await previous?.catch(() => undefined);
+      return this.run(generation);
+    })();
+    this.activeRun = run;
+    return run;
+  }
+
+  private isCurrent(generation: number) {
+    return generation === this.generation;
+  }
+
+  private async run(generation: number): Promise<UploadOutcome> {
+    if (this.completed) return "completed";
+    if (!this.isCurrent(generation)) return "paused";
+    this.failed = false;
+
+    try {
+      if (!this.uploadId) {
+        await this.createUpload();
+      }
+
+      const pending = Array.from({ length: this.partCount }, (_, i) => i + 1)
+        .filter((partNumber) => !this.completedParts.has(partNumber));
+
+      // Simple worker pool over the pending part numbers
+      const queue = [...pending];
+      const workers = Array.from({ length: Math.min(this.options.concurrency, queue.length) }, async () => {
+        while (queue.length > 0 && this.isCurrent(generation) && !this.failed) {
+          const partNumber = queue.shift()!;
+          await this.uploadPartWithRetry(partNumber, generation);
+        }
+      });
+
+      await Promise.all(workers);
+
+      if (!this.isCurrent(generation)) return "paused";
+
+      await this.completeUpload();
+      this.completed = true;
+      return "completed";
+    } catch (error) {
+      if (!this.isCurrent(generation)) return "paused";
+      // Stop the other workers so a retry starts cleanly
+      this.failed = true;
+      this.abortInFlight();
+      // Validation rejections carry a code and can't be fixed by retrying
+      const code = getApiError(error)?.code;
+      throw new UploadError(
+        code ? getErrorMessage(error) : `Failed to upload file to S3: ${getErrorMessage(error)}`,
+        code
+      );
+    }
+  }
+
+  resume(): Promise<UploadOutcome> {
+    return this.start();
+  }
+
+  pause() {
+    this.paused = true;
+    this.generation++;
+    this.abortInFlight();
+  }
+
+  // Give up on the upload entirely and delete the stored parts
+  async abort() {
+    this.pause();
+
+    if (this.key && this.uploadId) {
+      try {
+        await http.post("/api/s3/multipart/abort", { key: this.key, uploadId: this.uploadId });
+      } catch (error) {
+        console.error("Failed to abort multipart upload:", getErrorMessage(error));
+      }
+    }
+  }
+
+  private async createUpload() {
+    const { data } = await http.post<CreateResponse>("/api/s3/multipart/create", {
+      fileName: this.file.name,
+      size: this.file.size,
+    });
+
+    if (!data.success || !data.key || !data.uploadId || !data.partSize || !data.partCount) {
+      throw new Error(data.error || "Failed to start upload");
+    }
+
+    this.key = data.key;
+    this.uploadId = data.uploadId;
+    this.partSize = data.partSize;
+    this.partCount = data.partCount;
+  }
+
+  private async uploadPartWithRetry(partNumber: number, generation: number) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.uploadPart(partNumber);
+        return;
+      } catch (error) {
+        if (!this.isCurrent(generation) || this.failed) return;
+        if (attempt >= this.options.maxRetries) {
+          this.failed = true;
+          throw error;
+        }
+
+        console.warn(`Part ${partNumber} failed (attempt ${attempt}), retrying:`, getErrorMessage(error));
+        await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  private async uploadPart(partNumber: number) {
+    // Covers signing as well as sending, so a pause stops both
+    const controller = new AbortController();
+    this.controllers.add(controller);
+
+    try {
+      // Sign right before sending so long-paused uploads never use stale URLs
+      const response = await fetchWithSession("/api/s3/multipart/sign-part", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key: this.key, uploadId: this.uploadId, partNumbers: [partNumber] }),
+        signal: controller.signal,
+      });
+      const data: SignResponse = await response.json().catch(() => ({ success: false }));
+
+      const url = data.urls?.[0]?.url;
+      if (!response.ok || !data.success || !url) {
+        throw new Error(data.error || "Failed to sign upload part");
+      }
+
+      const start = (partNumber - 1) * this.partSize;
+      const blob = this.file.slice(start, Math.min(start + this.partSize, this.file.size));
+
+      const etag = await putPart(url, blob, controller.signal, (loaded) => {
+        this.partProgress.set(partNumber, loaded);
+        this.reportProgress();
+      });
+
+      this.completedParts.set(partNumber, etag);
+      this.partProgress.set(partNumber, blob.size);
+      this.reportProgress();
+    } catch (error) {
+      // Discard partial progress for this part; it will be re-sent
+      this.partProgress.delete(partNumber);
+      this.reportProgress();
+      throw error;
+    } finally {
+      this.controllers.delete(controller);
+    }
+  }
+
+  private async completeUpload() {
+    await http.post("/api/s3/multipart/complete", {
+      key: this.key,
+      uploadId: this.uploadId,
+      parts: Array.from(this.completedParts, ([partNumber, etag]) => ({ partNumber, etag })),
+    });
+  }
+
+  private abortInFlight() {
+    this.controllers.forEach((controller) => controller.abort());
+    this.controllers.clear();
+  }
+
+  private reportProgress() {
+    const loaded = Array.from(this.partProgress.values()).reduce((sum, bytes) => sum + bytes, 0);
+    const total = this.file.size;
+
+    this.options.onProgress?.({
+      loaded,
+      total,
+      percent: total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 100,
+    });
+  }
+}
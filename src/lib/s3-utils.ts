@@ -1,7 +1,5 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
-import { awsConfig, isAwsConfigValid } from "./config";
-import axios from "axios";
+import { http } from "./http";
+import type { ImportMapping } from "./types/import-mapping";
 
 // Define types for our API responses
 interface UploadResponse {
@@ -21,45 +19,42 @@ interface UrlResponse {
   error?: string;
 }
 
-interface ConnectionTestResponse {
+interface MappingResponse {
   success: boolean;
-  message: string;
   error?: string;
 }
 
-// Log AWS configuration (without sensitive values)
-console.log("S3 Configuration:", {
-  region: awsConfig.region,
-  accessKeyIdProvided: !!awsConfig.accessKeyId,
-  secretAccessKeyProvided: !!awsConfig.secretAccessKey,
-  bucketName: awsConfig.bucketName,
-});
-
-// Check if AWS config is valid
-if (!isAwsConfigValid()) {
-  console.error("AWS configuration is incomplete. S3 operations will fail.");
+export interface S3FileSummary {
+  key: string;
+  name: string;
+  size: number;
+  lastModified?: string;
+  contentType?: string;
 }
 
-let s3Client: S3Client;
-
-try {
-  s3Client = new S3Client({
-    region: awsConfig.region,
-    credentials: {
-      accessKeyId: awsConfig.accessKeyId,
-      secretAccessKey: awsConfig.secretAccessKey,
-    },
-  });
-} catch (error) {
-  console.error("Failed to initialize S3 client:", error);
-  // Create a dummy client that will throw errors when used
-  s3Client = {} as S3Client;
+interface ListResponse {
+  success: boolean;
+  files?: S3FileSummary[];
+  nextContinuationToken?: string | null;
+  error?: string;
 }
 
-const BUCKET_NAME = awsConfig.bucketName;
+// What axios attaches to a failed request
+type RequestError = {
+  response?: { data?: { error?: string }; statusText?: string };
+  request?: unknown;
+};
 
-// Log configuration status
-console.log("S3 client-side utilities loaded, config valid:", isAwsConfigValid());
+// Prefer the message our API routes put in the response body
+const getErrorMessage = (error: unknown) =>
+  (error as RequestError).response?.data?.error
+  || (error instanceof Error ? error.message : "Unknown error");
+
+interface ConnectionTestResponse {
+  success: boolean;
+  message: string;
+  error?: string;
+}
 
 export async function uploadToS3(file: File): Promise<string> {
   try {
@@ -70,7 +65,7 @@ export async function uploadToS3(file: File): Promise<string> {
     formData.append("file", file);
     
     // Send to our server-side API route
-    const response = await axios.post<UploadResponse>("/api/s3/upload", formData, {
+    const response = await http.post<UploadResponse>("/api/s3/upload", formData, {
       headers: {
         "Content-Type": "multipart/form-data",
       },
@@ -86,22 +81,23 @@ export async function uploadToS3(file: File): Promise<string> {
     
     console.log(`File uploaded successfully with key: ${response.data.key}`);
     return response.data.key;
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error uploading to S3:', error);
     
     // Enhanced error messaging
     let errorMessage = 'Failed to upload file to S3: ';
+    const { response, request } = (error ?? {}) as RequestError;
     
-    if (error.response) {
+    if (response) {
       // The request was made and the server responded with a status code
       // that falls out of the range of 2xx
-      errorMessage += error.response.data.error || error.response.statusText;
-    } else if (error.request) {
+      errorMessage += response.data?.error || response.statusText;
+    } else if (request) {
       // The request was made but no response was received
       errorMessage += 'No response received from server';
     } else {
       // Something happened in setting up the request that triggered an Error
-      errorMessage += error.message;
+      errorMessage += error instanceof Error ? error.message : 'Unknown error';
     }
     
     console.error(errorMessage);
@@ -114,7 +110,7 @@ export async function deleteFromS3(key: string): Promise<boolean> {
     console.log(`Requesting deletion for file with key: ${key}`);
     
     // Send delete request to server-side API
-    const response = await axios.delete<DeleteResponse>(`/api/s3/delete`, {
+    const response = await http.delete<DeleteResponse>(`/api/s3/delete`, {
       params: { key }
     });
     
@@ -124,8 +120,8 @@ export async function deleteFromS3(key: string): Promise<boolean> {
     
     console.log(`File with key ${key} deleted successfully`);
     return true;
-  } catch (error: any) {
-    console.error("Error deleting file from S3:", error.message);
+  } catch (error) {
+    console.error("Error deleting file from S3:", getErrorMessage(error));
     return false;
   }
 }
@@ -135,7 +131,7 @@ export async function getSignedFileUrl(key: string): Promise<string> {
     console.log(`Requesting signed URL for file with key: ${key}`);
     
     // Request signed URL from server-side API
-    const response = await axios.get<UrlResponse>(`/api/s3/get-url`, {
+    const response = await http.get<UrlResponse>(`/api/s3/get-url`, {
       params: { key }
     });
     
@@ -144,25 +140,76 @@ export async function getSignedFileUrl(key: string): Promise<string> {
     }
     
     return response.data.url;
-  } catch (error: any) {
-    console.error("Error getting signed URL:", error.message);
-    throw new Error(`Failed to get signed URL: ${error.message}`);
+  } catch (error) {
+    const message = getErrorMessage(error);
+    console.error("Error getting signed URL:", message);
+    throw new Error(`Failed to get signed URL: ${message}`);
+  }
+}
+
+export async function listS3Files(
+  continuationToken?: string | null
+): Promise<{ files: S3FileSummary[]; nextContinuationToken: string | null }> {
+  try {
+    const response = await http.get<ListResponse>("/api/s3/list", {
+      params: continuationToken ? { continuationToken } : {}
+    });
+    
+    if (!response.data.success || !response.data.files) {
+      throw new Error(response.data.error || "Failed to list files");
+    }
+    
+    return {
+      files: response.data.files,
+      nextContinuationToken: response.data.nextContinuationToken || null
+    };
+  } catch (error) {
+    const message = getErrorMessage(error);
+    console.error("Error listing files from S3:", message);
+    throw new Error(`Failed to list files: ${message}`);
+  }
+}
+
+// Store the confirmed column mapping next to an imported spreadsheet
+export async function saveImportMapping(key: string, mapping: ImportMapping): Promise<void> {
+  try {
+    const response = await http.post<MappingResponse>("/api/s3/mapping", { key, mapping });
+    
+    if (!response.data.success) {
+      throw new Error(response.data.error || "Failed to save column mapping");
+    }
+  } catch (error) {
+    const message = getErrorMessage(error);
+    console.error("Error saving import mapping:", message);
+    throw new Error(`Failed to save column mapping: ${message}`);
   }
 }
 
 export async function testS3Connection(): Promise<{ success: boolean, message: string }> {
   try {
-    const response = await axios.get<ConnectionTestResponse>("/api/s3/test-connection");
+    const response = await http.get<ConnectionTestResponse>("/api/s3/test-connection");
     
     return {
       success: response.data.success,
       message: response.data.message
     };
-  } catch (error: any) {
-    console.error("Error testing S3 connection:", error.message);
+  } catch (error) {
+    const message = getErrorMessage(error);
+    console.error("Error testing S3 connection:", message);
     return {
       success: false,
-      message: `Connection test failed: ${error.message}`
+      message: `Connection test failed: ${message}`
     };
   }
-} 
\ No newline at end of file
+}
+
+// Whether the server has S3 credentials configured
+export async function isS3Configured(): Promise<boolean> {
+  try {
+    const response = await http.get<{ success: boolean; configured: boolean }>("/api/s3/status");
+    return response.data.configured;
+  } catch (error) {
+    console.error("Error checking S3 configuration:", error);
+    return false;
+  }
+}
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+// Validation rules shared by the auth forms and the API routes behind them,
+// so the browser and the server accept exactly the same input
+
+const passwordSchema = z.string().min(6, 'Password must be at least 6 characters');
+const emailSchema = z.string().email('Invalid email address');
+
+export const loginSchema = z.object({
+  username: z.string().min(1, 'Username is required'),
+  password: passwordSchema,
+});
+
+// The fields a user can change on their profile
+export const profileSchema = z.object({
+  fullname: z.string().min(2, 'Full name must be at least 2 characters'),
+  email: emailSchema,
+  phone: z.string().min(10, 'Phone number is required'),
+  dob: z.string().regex(/^\d{2}\/\d{2}\/\d{4}$/, 'Date must be in DD/MM/YYYY format'),
+});
+
+export const registerSchema = profileSchema.extend({
+  username: z.string().min(1, 'Username is required'),
+  password: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+}).refine((data) => data.newPassword !== data.currentPassword, {
+  message: 'New password must be different from the current one',
+  path: ['newPassword'],
+});
+
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+// The token comes from the link in the reset email
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset link is invalid'),
+  password: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification link is invalid'),
+});
+
+export type LoginFormData = z.infer<typeof loginSchema>;
+export type ProfileFormData = z.infer<typeof profileSchema>;
+export type RegisterFormData = z.infer<typeof registerSchema>;
+export type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+export type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
@@ -0,0 +1,104 @@
+import { z } from "zod";
+
+// Server-only configuration. Secrets are read from plain (non NEXT_PUBLIC_)
+// environment variables, so they never end up in the browser bundle, and are
+// validated once when the server starts (see src/instrumentation.ts).
+
+if (typeof window !== "undefined") {
+  throw new Error("server-config must not be imported from client code");
+}
+
+// Treat empty variables as unset, so `FOO=` in an env file means "not configured"
+const optional = z.preprocess((value) => (value === "" ? undefined : value), z.string().optional());
+
+const envSchema = z.object({
+  ANALYST_API_URL: z.preprocess(
+    (value) => (value === "" ? undefined : value),
+    z.string().url("ANALYST_API_URL must be a URL").default("http://52.201.125.3:8000")
+  ),
+  AUTH_API_URL: z.preprocess(
+    (value) => (value === "" ? undefined : value),
+    z.string().url("AUTH_API_URL must be a URL").default("http://23.22.63.50:8000/api")
+  ),
+  // How long a streamed answer may take to start, and a JSON answer to arrive in full
+  ANALYST_STREAM_START_TIMEOUT_MS: z.preprocess(
+    (value) => (value === "" ? undefined : value),
+    z.coerce.number().int().positive().default(60000)
+  ),
+  ANALYST_TIMEOUT_MS: z.preprocess(
+    (value) => (value === "" ? undefined : value),
+    z.coerce.number().int().positive().default(300000)
+  ),
+  ANALYST_API_KEY: z.string({ required_error: "ANALYST_API_KEY is required" }).min(1, "ANALYST_API_KEY is required"),
+  // Signs the backend's access tokens; the middleware can't verify sessions without it
+  JWT_SECRET: z.string({ required_error: "JWT_SECRET is required" }).min(1, "JWT_SECRET is required"),
+  AWS_REGION: optional,
+  AWS_ACCESS_KEY_ID: optional,
+  AWS_SECRET_ACCESS_KEY: optional,
+  AWS_BUCKET_NAME: optional,
+});
+
+const loadServerConfig = () => {
+  const parsed = envSchema.safeParse(process.env);
+
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) => `  ${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid server environment:\n${problems.join("\n")}`);
+  }
+
+  const env = parsed.data;
+
+  return {
+    analyst: {
+      // The analyst API routes call this with the key; the browser never sees either
+      upstreamUrl: env.ANALYST_API_URL,
+      apiKey: env.ANALYST_API_KEY,
+      streamStartTimeoutMs: env.ANALYST_STREAM_START_TIMEOUT_MS,
+      responseTimeoutMs: env.ANALYST_TIMEOUT_MS,
+    },
+    auth: {
+      // Login, refresh and profile calls go here from the auth routes
+      apiUrl: env.AUTH_API_URL,
+    },
+    jwtSecret: env.JWT_SECRET,
+    aws: {
+      region: env.AWS_REGION ?? "",
+      accessKeyId: env.AWS_ACCESS_KEY_ID ?? "",
+      secretAccessKey: env.AWS_SECRET_ACCESS_KEY ?? "",
+      bucketName: env.AWS_BUCKET_NAME ?? "",
+    },
+  };
+};
+
+export const serverConfig = loadServerConfig();
+
+export const awsConfig = serverConfig.aws;
+export const analystConfig = serverConfig.analyst;
+export const authConfig = serverConfig.auth;
+
+// S3 is optional: without it the upload routes answer with a config error
+export function isAwsConfigValid(): boolean {
+  const { region, accessKeyId, secretAccessKey, bucketName } = awsConfig;
+  return !!(region && accessKeyId && secretAccessKey && bucketName);
+}
+
+// The S3 settings used to be NEXT_PUBLIC_AWS_*; say so instead of only
+// reporting S3 as unconfigured
+const LEGACY_AWS_VARIABLES = [
+  "NEXT_PUBLIC_AWS_REGION",
+  "NEXT_PUBLIC_AWS_ACCESS_KEY_ID",
+  "NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY",
+  "NEXT_PUBLIC_AWS_BUCKET_NAME",
+].filter((name) => process.env[name]);
+if (LEGACY_AWS_VARIABLES.length > 0) {
+  console.warn(
+    `Ignoring ${LEGACY_AWS_VARIABLES.join(", ")}: rename them to AWS_* (without NEXT_PUBLIC_) to configure S3`
+  );
+}
+
+// Log configuration status on load (without sensitive values)
+console.log("Server configuration loaded:", {
+  awsConfigured: isAwsConfigValid(),
+  analystUpstream: analystConfig.upstreamUrl,
+  authUpstream: authConfig.apiUrl,
+});
@@ -0,0 +1,41 @@
+// Where uploads live in the bucket. Solo accounts keep their files under a
+// personal prefix; members of an organization share one prefix, with a folder
+// per uploader so "who uploaded this" can be read from the key:
+//   users/42/uploads/1712345678901-invoice.pdf
+//   orgs/7/uploads/42/1712345678901-invoice.pdf
+// Kept free of the S3 client so the browser can use it for permission checks.
+
+export interface StorageOwner {
+  id: string;
+  organizationId?: string;
+}
+
+const toSegment = (value: string) => value.replace(/[^A-Za-z0-9_-]/g, "_");
+
+// Everything the user can see
+export function getStoragePrefix({ id, organizationId }: StorageOwner): string {
+  return organizationId ? `orgs/${toSegment(organizationId)}/` : `users/${toSegment(id)}/`;
+}
+
+// Where the user's own uploads go
+export function getUploadPrefix(owner: StorageOwner): string {
+  const uploads = `${getStoragePrefix(owner)}uploads/`;
+  return owner.organizationId ? `${uploads}${toSegment(owner.id)}/` : uploads;
+}
+
+export function buildUploadKey(owner: StorageOwner, fileName: string): string {
+  return `${getUploadPrefix(owner)}${Date.now()}-${fileName}`;
+}
+
+const isSafeKey = (key: unknown): key is string =>
+  typeof key === "string" && !key.split("/").includes("..");
+
+// True when `key` is inside the user's (or their organization's) prefix
+export function isKeyInScope(key: unknown, owner: StorageOwner): key is string {
+  return isSafeKey(key) && key.startsWith(getStoragePrefix(owner));
+}
+
+// True when the user uploaded `key` themselves
+export function isKeyUploadedBy(key: unknown, owner: StorageOwner): key is string {
+  return isSafeKey(key) && key.startsWith(getUploadPrefix(owner));
+}
@@ -0,0 +1,174 @@
+import { toNumber } from "./analysis";
+import type { CellValue } from "./types/analysis";
+import {
+  IMPORT_FIELDS,
+  type ColumnType,
+  type ImportField,
+  type ImportMapping,
+  type MappedColumn,
+  type TabularFormat,
+} from "./types/import-mapping";
+
+// Browser-side parsing for CSV/XLSX sales exports. Only the first rows are
+// read so the user can check the column mapping before the upload starts.
+
+// Data rows shown in the preview (plus the header row)
+export const PREVIEW_ROWS = 20;
+
+export interface TabularPreview {
+  format: TabularFormat;
+  sheet?: string;
+  headers: string[];
+  rows: CellValue[][];
+  columnTypes: ColumnType[];
+}
+
+export type FieldMapping = Partial<Record<ImportField, MappedColumn>>;
+
+export function getTabularFormat(fileName: string): TabularFormat | null {
+  const extension = fileName.slice(fileName.lastIndexOf(".") + 1).toLowerCase();
+  return extension === "csv" || extension === "xlsx" ? extension : null;
+}
+
+const toCellValue = (value: unknown): CellValue => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === "string") return value.trim() === "" ? null : value.trim();
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  return String(value);
+};
+
+const parseCsv = async (file: File) => {
+  // Loaded on demand so the parsers only ship to users who import a file
+  const { default: Papa } = await import("papaparse");
+
+  return new Promise<unknown[][]>((resolve, reject) => {
+    Papa.parse<unknown[]>(file, {
+      preview: PREVIEW_ROWS + 1,
+      skipEmptyLines: "greedy",
+      complete: (results) => resolve(results.data),
+      error: (error) => reject(error),
+    });
+  });
+};
+
+const parseXlsx = async (file: File) => {
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.read(await file.arrayBuffer(), {
+    type: "array",
+    cellDates: true,
+    sheetRows: PREVIEW_ROWS + 1,
+  });
+
+  const sheet = workbook.SheetNames[0];
+  if (!sheet) {
+    throw new Error("The workbook has no sheets");
+  }
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheet], {
+    header: 1,
+    blankrows: false,
+    defval: null,
+  });
+
+  return { sheet, rows };
+};
+
+const DATE_PATTERN = /^(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})([ T]\d{1,2}:\d{2}(:\d{2})?)?/;
+const CURRENCY_PATTERN = /[$€£]|^-?\d[\d,]*\.\d{2}$/;
+
+export function detectColumnType(values: CellValue[]): ColumnType {
+  const present = values.filter((value) => value !== null);
+  if (present.length === 0) return "empty";
+
+  if (present.every((value) => typeof value === "string" && DATE_PATTERN.test(value))) {
+    return "date";
+  }
+
+  if (present.every((value) => toNumber(value) !== null)) {
+    return present.some((value) => typeof value === "string" && CURRENCY_PATTERN.test(value))
+      ? "currency"
+      : "number";
+  }
+
+  return "text";
+}
+
+/**
+ * Read the header and first rows of a CSV or XLSX file and detect the type of
+ * each column from the sampled values.
+ */
+export async function readTabularPreview(file: File): Promise<TabularPreview> {
+  const format = getTabularFormat(file.name);
+  if (!format) {
+    throw new Error("Only CSV and XLSX files can be imported");
+  }
+
+  const { sheet, rows: rawRows } = format === "csv"
+    ? { sheet: undefined, rows: await parseCsv(file) }
+    : await parseXlsx(file);
+
+  const [headerRow = [], ...dataRows] = rawRows;
+  const width = Math.max(headerRow.length, ...dataRows.map((row) => row.length));
+  if (width === 0) {
+    throw new Error("The file doesn't contain any rows");
+  }
+
+  const headers = Array.from({ length: width }, (_, index) => {
+    const header = toCellValue(headerRow[index]);
+    return header === null ? `Column ${index + 1}` : String(header);
+  });
+  const rows = dataRows.map((row) => headers.map((_, index) => toCellValue(row[index])));
+  const columnTypes = headers.map((_, index) => detectColumnType(rows.map((row) => row[index])));
+
+  return { format, sheet, headers, rows, columnTypes };
+}
+
+// Header keywords and the column types that fit each field. Category and
+// price are guessed before item so "Category Name" isn't taken as the item.
+const FIELD_HINTS: Record<ImportField, { pattern: RegExp; types: ColumnType[] }> = {
+  date: { pattern: /date|day|time|period/i, types: ["date"] },
+  quantity: { pattern: /qty|quantity|units|count|sold/i, types: ["number"] },
+  price: { pattern: /price|amount|total|sales|revenue|net|gross/i, types: ["currency", "number"] },
+  category: { pattern: /categor|group|department|dept|class|type/i, types: ["text"] },
+  item: { pattern: /item|product|menu|dish|description|name|sku/i, types: ["text"] },
+};
+
+const GUESS_ORDER: ImportField[] = ["date", "quantity", "price", "category", "item"];
+
+// Suggest a column for each field from the header names and detected types
+export function guessFieldMapping({ headers, columnTypes }: TabularPreview): FieldMapping {
+  const mapping: FieldMapping = {};
+  const used = new Set<number>();
+
+  for (const field of GUESS_ORDER) {
+    const { pattern, types } = FIELD_HINTS[field];
+    const candidates = headers.map((_, index) => index).filter((index) => !used.has(index));
+
+    const index =
+      candidates.find((i) => pattern.test(headers[i]) && types.includes(columnTypes[i])) ??
+      candidates.find((i) => pattern.test(headers[i])) ??
+      // Dates are easy to recognise even under an unhelpful header
+      (field === "date" ? candidates.find((i) => columnTypes[i] === "date") : undefined);
+
+    if (index !== undefined) {
+      used.add(index);
+      mapping[field] = { column: headers[index], index, type: columnTypes[index] };
+    }
+  }
+
+  return mapping;
+}
+
+export function buildImportMapping(preview: TabularPreview, fields: FieldMapping): ImportMapping {
+  return {
+    version: 1,
+    format: preview.format,
+    ...(preview.sheet ? { sheet: preview.sheet } : {}),
+    headerRow: 1,
+    // Keep the fields in their canonical order
+    fields: Object.fromEntries(
+      IMPORT_FIELDS.filter((field) => fields[field]).map((field) => [field, fields[field]])
+    ),
+  };
+}
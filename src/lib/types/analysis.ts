@@ -0,0 +1,31 @@
+export type ChartType = "bar" | "line" | "pie";
+
+export type CellValue = string | number | boolean | null;
+
+export type DataRow = Record<string, CellValue>;
+
+export interface ChartSpec {
+  type: ChartType;
+  title?: string;
+  // Column used for the category / time axis (or pie slice labels)
+  x: string;
+  // One or more numeric columns plotted against x (pie charts use the first)
+  y: string[];
+}
+
+// Structured query result returned by the analyst API alongside the answer.
+// Older backends send a bare array of row objects instead of this shape.
+export interface DbSearchResult {
+  query?: string;
+  columns?: string[];
+  rows: DataRow[] | CellValue[][];
+  chart?: ChartSpec;
+}
+
+// Normalized form the chat page renders under an assistant message
+export interface AnalysisResult {
+  query?: string;
+  columns: string[];
+  rows: DataRow[];
+  chart: ChartSpec | null;
+}
@@ -1,10 +1,21 @@
+// Owners run the business, managers look after a location, staff use the chat
+export type Role = 'owner' | 'manager' | 'staff';
+
+export const ROLES: Role[] = ['owner', 'manager', 'staff'];
+
 export interface User {
   id: string;
   username: string;
-  fullname: string;
-  email: string;
-  phone: string;
-  dob: string;
+  // From the session token. Accounts outside an organization are the owner of
+  // their own workspace.
+  role?: Role;
+  organizationId?: string;
+  organizationName?: string;
+  // Profile details aren't part of the session token, so may be missing
+  fullname?: string;
+  email?: string;
+  phone?: string;
+  dob?: string;
 }
 
 export interface LoginCredentials {
@@ -24,14 +35,14 @@ export interface RegisterCredentials {
 
 export interface AuthResponse {
   user?: User;
-  token?: string;
   message?: string;
   error?: string;
+  // Set by register when the account can't sign in until its email is verified
+  verificationRequired?: boolean;
 }
 
 export interface AuthState {
   user: User | null;
-  token: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
 } 
\ No newline at end of file
@@ -0,0 +1,32 @@
+// Columns the backend needs to ingest a sales export
+export type ImportField = "date" | "item" | "quantity" | "price" | "category";
+
+export const IMPORT_FIELDS: ImportField[] = ["date", "item", "quantity", "price", "category"];
+
+// Fields the import can't be confirmed without
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ["date", "item", "quantity", "price"];
+
+export type ColumnType = "date" | "number" | "currency" | "text" | "empty";
+
+export type TabularFormat = "csv" | "xlsx";
+
+export interface MappedColumn {
+  // Header text as it appears in the file
+  column: string;
+  // Zero-based position, so duplicate or blank headers stay unambiguous
+  index: number;
+  type: ColumnType;
+}
+
+// Stored as "<object key>.mapping.json" next to the uploaded file
+export interface ImportMapping {
+  version: 1;
+  format: TabularFormat;
+  // Worksheet the rows come from (XLSX only)
+  sheet?: string;
+  // The first row holds the column names
+  headerRow: 1;
+  // Key of the file this mapping describes (filled in by the server)
+  source?: string;
+  fields: Partial<Record<ImportField, MappedColumn>>;
+}
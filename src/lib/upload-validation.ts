@@ -0,0 +1,189 @@
+// Server-side checks for uploaded documents: an allow-list of file kinds
+// verified by magic bytes, size limits and filename sanitizing. The error
+// codes are shared with the client so the upload page can explain rejections.
+
+export type UploadErrorCode =
+  | "UNSUPPORTED_TYPE"
+  | "CONTENT_MISMATCH"
+  | "FILE_TOO_LARGE"
+  | "EMPTY_FILE"
+  | "INVALID_NAME";
+
+export const UPLOAD_ERROR_MESSAGES: Record<UploadErrorCode, string> = {
+  UNSUPPORTED_TYPE: "This file type is not supported",
+  CONTENT_MISMATCH: "The file contents don't match its type",
+  FILE_TOO_LARGE: "The file is too large",
+  EMPTY_FILE: "The file is empty",
+  INVALID_NAME: "The file name is not valid",
+};
+
+export type FileKind = "pdf" | "png" | "jpeg" | "gif" | "webp" | "csv" | "xlsx";
+
+type FileKindSpec = {
+  extensions: string[];
+  contentType: string;
+  // Returns true when the leading bytes look like this kind of file
+  matches: (bytes: Uint8Array) => boolean;
+};
+
+// Number of leading bytes needed to identify every supported kind
+export const SNIFF_BYTES = 4096;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+// CSV has no signature: accept text that decodes as UTF-8 and has no NUL bytes
+const looksLikeText = (bytes: Uint8Array) => {
+  if (bytes.length === 0 || bytes.includes(0)) return false;
+  try {
+    // The sample may end mid-character, so ignore a trailing partial sequence
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes.subarray(0, Math.max(0, bytes.length - 3)));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const FILE_KINDS: Record<FileKind, FileKindSpec> = {
+  pdf: {
+    extensions: ["pdf"],
+    contentType: "application/pdf",
+    matches: (bytes) => startsWith(bytes, ascii("%PDF-")),
+  },
+  png: {
+    extensions: ["png"],
+    contentType: "image/png",
+    matches: (bytes) => startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  jpeg: {
+    extensions: ["jpg", "jpeg"],
+    contentType: "image/jpeg",
+    matches: (bytes) => startsWith(bytes, [0xff, 0xd8, 0xff]),
+  },
+  gif: {
+    extensions: ["gif"],
+    contentType: "image/gif",
+    matches: (bytes) => startsWith(bytes, ascii("GIF87a")) || startsWith(bytes, ascii("GIF89a")),
+  },
+  webp: {
+    extensions: ["webp"],
+    contentType: "image/webp",
+    matches: (bytes) => startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8),
+  },
+  csv: {
+    extensions: ["csv"],
+    contentType: "text/csv",
+    matches: looksLikeText,
+  },
+  xlsx: {
+    extensions: ["xlsx"],
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    // XLSX is a ZIP container
+    matches: (bytes) => startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]),
+  },
+};
+
+const ALL_KINDS = Object.keys(FILE_KINDS) as FileKind[];
+
+// Kinds accepted by this deployment. UPLOAD_ALLOWED_TYPES is a comma-separated
+// list such as "pdf,png,jpeg,csv,xlsx"; "images" expands to every image kind.
+export function getAllowedKinds(): FileKind[] {
+  const configured = process.env.UPLOAD_ALLOWED_TYPES;
+  if (!configured) return ALL_KINDS;
+
+  const kinds = configured
+    .split(",")
+    .map((value) => value.trim().toLowerCase())
+    .flatMap((value) => (value === "images" ? ["png", "jpeg", "gif", "webp"] : [value]))
+    .filter((value): value is FileKind => value in FILE_KINDS);
+
+  return kinds.length > 0 ? Array.from(new Set(kinds)) : ALL_KINDS;
+}
+
+const getExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf(".");
+  return dot === -1 ? "" : fileName.slice(dot + 1).toLowerCase();
+};
+
+// Content type of a stored upload. Uploads are only accepted when their bytes
+// match the extension, so the name is enough to tell.
+export function getContentTypeForFileName(fileName: string): string | undefined {
+  const extension = getExtension(fileName);
+  return Object.values(FILE_KINDS).find((spec) => spec.extensions.includes(extension))?.contentType;
+}
+
+/**
+ * Make a user-supplied file name safe to embed in an S3 key: drop any path,
+ * keep a conservative character set and cap the length (keeping the extension).
+ */
+export function sanitizeFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() || "";
+  const cleaned = base
+    .normalize("NFKD")
+    .replace(/[^A-Za-z0-9._ -]/g, "_")
+    .replace(/\s+/g, "_")
+    .replace(/_{2,}/g, "_")
+    .replace(/^[._-]+/, "");
+
+  const extension = getExtension(cleaned);
+  const stem = extension ? cleaned.slice(0, -(extension.length + 1)) : cleaned;
+  const trimmedStem = stem.slice(0, 100) || "file";
+
+  return extension ? `${trimmedStem}.${extension}` : trimmedStem;
+}
+
+type ValidationInput = {
+  fileName: string;
+  size: number;
+  maxSize: number;
+  // Leading bytes of the file; omit to validate only the name and size
+  // (e.g. before a direct-to-S3 upload, with content checked afterwards)
+  head?: Uint8Array;
+};
+
+export type ValidationResult =
+  | { ok: true; kind: FileKind; fileName: string; contentType: string }
+  | { ok: false; code: UploadErrorCode; message: string };
+
+const reject = (code: UploadErrorCode, detail?: string): ValidationResult => ({
+  ok: false,
+  code,
+  message: detail ? `${UPLOAD_ERROR_MESSAGES[code]}: ${detail}` : UPLOAD_ERROR_MESSAGES[code],
+});
+
+export function validateUpload({ fileName, size, maxSize, head }: ValidationInput): ValidationResult {
+  const safeName = sanitizeFileName(fileName);
+  if (!fileName || !safeName) return reject("INVALID_NAME");
+
+  if (size <= 0) return reject("EMPTY_FILE");
+  if (size > maxSize) {
+    return reject("FILE_TOO_LARGE", `maximum size is ${Math.round(maxSize / (1024 * 1024))}MB`);
+  }
+
+  const allowed = getAllowedKinds();
+  const extension = getExtension(safeName);
+  const kind = allowed.find((candidate) => FILE_KINDS[candidate].extensions.includes(extension));
+
+  if (!kind) {
+    return reject("UNSUPPORTED_TYPE", `allowed types are ${allowed.join(", ")}`);
+  }
+
+  if (head && !FILE_KINDS[kind].matches(head)) {
+    return reject("CONTENT_MISMATCH", `expected a ${kind.toUpperCase()} file`);
+  }
+
+  return { ok: true, kind, fileName: safeName, contentType: FILE_KINDS[kind].contentType };
+}
+
+// Client-side error carrying the server's rejection code, if any
+export class UploadError extends Error {
+  code?: UploadErrorCode;
+
+  constructor(message: string, code?: UploadErrorCode) {
+    super(message);
+    this.name = "UploadError";
+    this.code = code;
+  }
+}
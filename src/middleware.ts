@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  clearRefreshedMark,
+  getAuthenticatedUser,
+  getRefreshToken,
+  wasJustRefreshed,
+} from '@/lib/auth-server';
+
+// Pages and API routes that need a signed-in user. Pages redirect to the login
+// screen (which sends the user back afterwards), or first try to renew an
+// expired session; API routes answer 401 and the client refreshes itself.
+export async function middleware(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+  const justRefreshed = wasJustRefreshed(request);
+  if (user) {
+    const res = NextResponse.next();
+    if (justRefreshed) clearRefreshedMark(res);
+    return res;
+  }
+
+  const { pathname, search } = request.nextUrl;
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  // Refresh at most once per page load: a token that fails right after a
+  // refresh would fail again
+  const target = getRefreshToken(request) && !justRefreshed ? '/api/auth/refresh' : '/login';
+  const redirectUrl = new URL(target, request.url);
+  redirectUrl.searchParams.set('next', `${pathname}${search}`);
+  const res = NextResponse.redirect(redirectUrl);
+  if (justRefreshed) clearRefreshedMark(res);
+  return res;
+}
+
+export const config = {
+  matcher: [
+    '/chat/:path*',
+    '/upload/:path*',
+    '/profile/:path*',
+    '/api/profile/:path*',
+    '/api/s3/:path*',
+    '/api/chat/:path*',
+    '/api/sessions/:path*',
+    '/api/conversation/:path*',
+    '/api/health/:path*',
+    '/api/ingestion/:path*',
+  ],
+};
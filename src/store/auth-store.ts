@@ -0,0 +1,16 @@
+import { create } from "zustand";
+import type { AuthState, User } from "@/lib/types/auth";
+
+// Who is signed in, shared by every component that calls useAuth, so signing
+// in from one place (e.g. the session expired dialog) updates them all
+interface AuthStore extends AuthState {
+  // null once the session check found nobody, or after logging out
+  setUser: (user: User | null) => void;
+}
+
+export const useAuthStore = create<AuthStore>((set) => ({
+  user: null,
+  isAuthenticated: false,
+  isLoading: true,
+  setUser: (user) => set({ user, isAuthenticated: Boolean(user), isLoading: false }),
+}));
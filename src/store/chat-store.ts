@@ -1,108 +1,183 @@
 import { create } from "zustand";
 import { v4 as uuidv4 } from "uuid";
-import axios from "axios";
-import { apiConfig } from "@/lib/config";
+import { fetchWithSession } from "@/lib/http";
+import { readChatStream } from "@/lib/chat-stream";
+import { normalizeAnalysis } from "@/lib/analysis";
+import {
+  createAnalystClient,
+  describeAnalystError,
+  parseChatEvent,
+  type AnalystError,
+  type ChatEvent,
+  type ChatRequest,
+  type IngestionStatusResponse,
+  type Session,
+} from "@/lib/analyst-client";
+import {
+  getRetryDelay,
+  loadOutbox,
+  MAX_SEND_ATTEMPTS,
+  removeOutboxEntry,
+  saveOutboxEntry,
+  type OutboxEntry,
+} from "@/lib/outbox";
+import {
+  loadConversationAttachments,
+  removeConversationAttachments,
+  saveConversationAttachments,
+} from "@/lib/conversation-attachments";
+import { listS3Files } from "@/lib/s3-utils";
+import type { AnalysisResult } from "@/lib/types/analysis";
+import type { UploadErrorCode } from "@/lib/upload-validation";
+import { useSessionStore } from "@/store/session-store";
 
-// Helper function to get the API URL with CORS proxy if needed
-const getApiUrl = (host: string, endpoint: string) => {
-  // Check if we're running in development mode
-  const isDev = process.env.NODE_ENV === 'development';
-  
-  // Use local API route as proxy in development to avoid CORS issues
-  if (isDev) {
-    // Encode the entire endpoint including any query parameters
-    return `/api/proxy?host=${encodeURIComponent(host)}&endpoint=${encodeURIComponent(endpoint)}`;
-  }
-  
-  return `http://${host}/${endpoint}`;
-};
+export type { Session } from "@/lib/analyst-client";
 
-export type Message = {
-  role: "user" | "assistant";
-  content: string;
-  timestamp: Date;
-};
+// Analyst API calls go to our own API routes (/api/chat, /api/sessions, ...),
+// which identify the user from the session cookie and add the API key before
+// calling the analyst API.
+const analyst = createAnalystClient(fetchWithSession, {
+  "X-Requested-With": "XMLHttpRequest",
+});
 
-export type UploadedFile = {
-  id: string;
+// An uploaded document referenced by a message
+export type MessageAttachment = {
+  s3Key: string;
   name: string;
-  size: number;
-  status: "uploading" | "uploaded" | "processing" | "error";
-  s3Key?: string;
-  error?: string;
 };
 
-export type Session = {
-  session_id: string;
-  title: string;
-  created_at: string;
-  last_updated: string;
-  message_count: number;
-};
+// Delivery of a question to the analyst. Messages loaded from the backend
+// have no status; they were sent long ago.
+export type MessageStatus = "queued" | "sending" | "sent" | "failed";
 
-export type ApiMessage = {
+export type Message = {
+  id: string;
   role: "user" | "assistant";
   content: string;
+  // When the backend recorded it; the session start for older sessions
+  timestamp: Date;
+  isStreaming?: boolean;
+  analysis?: AnalysisResult | null;
+  attachments?: MessageAttachment[];
+  status?: MessageStatus;
+  // Why a question couldn't be sent or answered; it can be retried
+  error?: string;
 };
 
-export type HealthResponse = {
-  status: string;
+// A failed store action, shown as a toast until dismissed
+export type StoreError = {
+  id: string;
+  title: string;
+  description: string;
 };
 
-export type SessionsResponse = {
-  sessions: Session[];
-};
+// Backend ingestion lifecycle of an uploaded document. Only "indexed"
+// documents can be searched by the chat.
+export type IngestionStatus = IngestionStatusResponse["status"];
 
-export type ConversationResponse = {
-  session_id: string;
-  user_id: string;
-  messages: ApiMessage[];
-  metadata: {
-    created_at: string;
-    last_updated: string;
-    message_count: number;
-    title: string;
-  };
+export type IngestionState = {
+  status: IngestionStatus;
+  error?: string;
+  updatedAt?: string;
 };
 
-export type ChatResponse = {
-  generation: string;
-  session_id: string;
-  messages: ApiMessage[];
-  db_search?: any;
+export type UploadedFile = {
+  id: string;
+  name: string;
+  size: number;
+  status: "uploading" | "paused" | "uploaded" | "processing" | "error";
+  s3Key?: string;
+  // Upload progress, 0-100
+  progress?: number;
+  uploadedAt?: string;
+  contentType?: string;
+  error?: string;
+  // Set when the server rejected the file during validation
+  errorCode?: UploadErrorCode;
+  // Unknown until the backend has been asked about this file
+  ingestion?: IngestionState;
 };
 
 export type Conversation = {
   id: string;
   title: string;
   messages: Message[];
+  // Every document attached to any message in this conversation
+  attachments: MessageAttachment[];
   createdAt: Date;
   lastUpdatedAt: Date;
 };
 
+// Requests the UI shows progress for. Those about one conversation are
+// tracked per session, so e.g. deleting one chat doesn't block another.
+export type RequestOperation =
+  | "connect"
+  | "loadSessions"
+  | "loadConversation"
+  | "sendMessage"
+  | "deleteSession";
+
+export type RequestState =
+  | { status: "pending" }
+  | { status: "error"; error: string };
+
+export const getRequestKey = (operation: RequestOperation, sessionId?: string | null) =>
+  sessionId ? `${operation}:${sessionId}` : operation;
+
+// How a delivery attempt ended. "expired" means the session needs a new
+// sign-in first; the question stays queued.
+export type DeliveryResult = "sent" | "queued" | "failed" | "expired";
+
 interface ChatStore {
   conversations: Conversation[];
   sessions: Session[];
   currentConversationId: string | null;
   files: UploadedFile[];
-  isLoading: boolean;
-  apiKey: string;
+  // Cursor for the next page of the bucket listing; null once everything is loaded
+  filesContinuationToken: string | null;
+  isLoadingFiles: boolean;
+  filesError: string | null;
+  // In-flight and failed requests by getRequestKey(); finished ones are removed
+  requests: Record<string, RequestState>;
+  isStreaming: boolean;
+  isOnline: boolean;
   userId: string;
-  apiHost: string;
   isConnected: boolean;
   connectionError: string | null;
-  addMessage: (content: string, role: "user" | "assistant") => void;
-  sendMessage: (content: string) => Promise<void>;
+  errors: StoreError[];
+  dismissError: (id: string) => void;
+  // Show a toast for a failure outside the store's own actions
+  reportError: (title: string, description: string) => void;
+  addMessage: (
+    content: string,
+    role: "user" | "assistant",
+    attachments?: MessageAttachment[],
+    status?: MessageStatus
+  ) => string;
+  updateMessage: (id: string, updates: Partial<Message>) => void;
+  // Queue a question in the current conversation and send it when possible
+  sendMessage: (content: string, attachments?: MessageAttachment[]) => Promise<void>;
+  // Send one queued question and stream its answer in
+  deliverMessage: (id: string) => Promise<DeliveryResult>;
+  // Queue a failed question again
+  retryMessage: (id: string) => Promise<void>;
+  // Load questions left in the outbox by an earlier visit
+  restoreOutbox: () => Promise<void>;
+  // Send every queued question that is due
+  flushOutbox: () => Promise<void>;
+  setOnline: (online: boolean) => void;
+  stopStreaming: () => void;
   addFile: (file: UploadedFile) => void;
   updateFile: (id: string, updates: Partial<UploadedFile>) => void;
   removeFile: (id: string) => void;
+  loadFiles: (options?: { append?: boolean }) => Promise<void>;
+  checkIngestion: (s3Key: string) => Promise<void>;
+  pollIngestion: () => Promise<void>;
+  retryIngestion: (s3Key: string) => Promise<void>;
   startNewConversation: () => void;
   setCurrentConversation: (id: string) => void;
   deleteConversation: (id: string) => void;
-  setLoading: (loading: boolean) => void;
-  setApiKey: (key: string) => void;
   setUserId: (id: string) => void;
-  setApiHost: (host: string) => void;
   connect: () => Promise<boolean>;
   loadSessions: () => Promise<void>;
   loadConversation: (sessionId: string) => Promise<void>;
@@ -129,246 +204,687 @@ const createTitleFromContent = (content: string): string => {
   return content.substring(0, bestBreakPoint).trim() + '...';
 };
 
+// Add newly attached documents to a conversation's list, skipping duplicates
+const mergeAttachments = (existing: MessageAttachment[], added: MessageAttachment[]) => [
+  ...existing,
+  ...added.filter((file) => !existing.some((e) => e.s3Key === file.s3Key)),
+];
+
+// Record the state of a request, or clear it (null) once it succeeded
+const withRequest = (
+  requests: Record<string, RequestState>,
+  key: string,
+  request: RequestState | null
+) => {
+  const next = { ...requests };
+  if (request) {
+    next[key] = request;
+  } else {
+    delete next[key];
+  }
+  return next;
+};
+
+const startRequest = (key: string) => (state: ChatStore) => ({
+  requests: withRequest(state.requests, key, { status: "pending" }),
+});
+
+const endRequest = (key: string, error?: AnalystError) => (state: ChatStore) => ({
+  requests: withRequest(
+    state.requests,
+    key,
+    error ? { status: "error", error: describeAnalystError(error) } : null
+  ),
+});
+
+// Only the newest few errors are kept as toasts
+const MAX_ERRORS = 3;
+
+const withError = (errors: StoreError[], title: string, error: AnalystError) =>
+  // An expired session has its own sign-in prompt
+  error.kind === "http" && error.status === 401
+    ? errors
+    : [...errors, { id: uuidv4(), title, description: describeAnalystError(error) }].slice(-MAX_ERRORS);
+
+// Controller for the chat request currently streaming, so it can be cancelled
+let activeChatController: AbortController | null = null;
+
+// Questions waiting to be sent, by message id; mirrors the IndexedDB outbox
+const outbox = new Map<string, OutboxEntry>();
+
+let activeOutboxFlush: Promise<void> | null = null;
+let outboxRetryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Failures worth retrying automatically; anything else needs the user
+const isTransientError = (error: AnalystError) =>
+  error.kind === "network" ||
+  (error.kind === "http" && [408, 429, 502, 503, 504].includes(error.status));
+
+const canSendNow = (state: ChatStore) =>
+  state.isOnline &&
+  state.isConnected &&
+  !state.isStreaming &&
+  !useSessionStore.getState().isExpired;
+
+const forgetOutboxEntry = (id: string) => {
+  outbox.delete(id);
+  void removeOutboxEntry(id);
+};
+
+// Oldest queued question of the current user that is due for (another) try
+const getDueOutboxEntry = (state: ChatStore) => {
+  const now = Date.now();
+  const queued = new Set(
+    state.conversations.flatMap((conv) =>
+      conv.messages.filter((msg) => msg.status === "queued").map((msg) => msg.id)
+    )
+  );
+  return Array.from(outbox.values())
+    .filter((entry) => entry.userId === state.userId && queued.has(entry.id) && entry.nextAttemptAt <= now)
+    .sort((a, b) => a.createdAt - b.createdAt)[0];
+};
+
+// Wake the outbox when the next backed-off question is due
+const scheduleOutboxRetry = (get: () => ChatStore) => {
+  if (outboxRetryTimer) {
+    clearTimeout(outboxRetryTimer);
+    outboxRetryTimer = null;
+  }
+  
+  // Questions that are already due wait for something to change instead
+  // (coming back online, signing in, the current answer finishing)
+  const { userId } = get();
+  const now = Date.now();
+  const dueTimes = Array.from(outbox.values())
+    .filter((entry) => entry.userId === userId && entry.nextAttemptAt > now)
+    .map((entry) => entry.nextAttemptAt);
+  if (dueTimes.length === 0) return;
+  
+  outboxRetryTimer = setTimeout(() => {
+    outboxRetryTimer = null;
+    void get().flushOutbox();
+  }, Math.min(...dueTimes) - now);
+};
+
+const insertMessageAfter = (conversations: Conversation[], afterId: string, message: Message) =>
+  conversations.map((conv) => {
+    const index = conv.messages.findIndex((msg) => msg.id === afterId);
+    if (index === -1) return conv;
+    
+    const messages = [...conv.messages];
+    messages.splice(index + 1, 0, message);
+    return { ...conv, messages };
+  });
+
+// Show a question restored from the outbox in its conversation
+const placeOutboxEntry = (conversations: Conversation[], entry: OutboxEntry): Conversation[] => {
+  if (conversations.some((conv) => conv.messages.some((msg) => msg.id === entry.id))) {
+    return conversations;
+  }
+  
+  const message: Message = {
+    id: entry.id,
+    role: "user",
+    content: entry.content,
+    timestamp: new Date(entry.createdAt),
+    status: "queued",
+    ...(entry.attachments.length > 0 && { attachments: entry.attachments }),
+  };
+  
+  const existing = conversations.find((conv) => conv.id === entry.conversationId);
+  if (existing) {
+    return conversations.map((conv) =>
+      conv === existing
+        ? {
+            ...conv,
+            messages: [...conv.messages, message],
+            attachments: mergeAttachments(conv.attachments, entry.attachments),
+          }
+        : conv
+    );
+  }
+  
+  return [
+    {
+      id: entry.conversationId,
+      title: entry.conversationTitle,
+      messages: [message],
+      attachments: entry.attachments,
+      createdAt: new Date(entry.createdAt),
+      lastUpdatedAt: new Date(entry.createdAt),
+    },
+    ...conversations,
+  ];
+};
+
+let activeIngestionPoll: Promise<void> | null = null;
+
+// Keys the backend has no ingestion record for (e.g. uploaded before status
+// tracking existed); they are not polled again
+const untrackedIngestionKeys = new Set<string>();
+
+const needsIngestionCheck = (file: UploadedFile) =>
+  Boolean(file.s3Key) &&
+  (file.status === "uploaded" || file.status === "processing") &&
+  (file.ingestion
+    ? file.ingestion.status === "queued" || file.ingestion.status === "processing"
+    : !untrackedIngestionKeys.has(file.s3Key!));
+
+// Record an ingestion status on every entry for the key. Files still being
+// indexed are shown as "processing" until the backend reports a final state.
+const applyIngestion = (files: UploadedFile[], s3Key: string, ingestion: IngestionState) =>
+  files.map((file) =>
+    file.s3Key === s3Key && (file.status === "uploaded" || file.status === "processing")
+      ? {
+          ...file,
+          ingestion,
+          status: ingestion.status === "queued" || ingestion.status === "processing"
+            ? "processing" as const
+            : "uploaded" as const,
+        }
+      : file
+  );
+
 export const useChatStore = create<ChatStore>((set, get) => ({
   conversations: [],
   sessions: [],
   currentConversationId: null,
   files: [],
-  isLoading: false,
-  apiKey: apiConfig.defaultApiKey,
+  filesContinuationToken: null,
+  isLoadingFiles: false,
+  filesError: null,
+  requests: {},
+  isStreaming: false,
+  isOnline: true,
   userId: "",
-  apiHost: apiConfig.host,
   isConnected: false,
   connectionError: null,
+  errors: [],
+
+  dismissError: (id: string) => {
+    set((state) => ({ errors: state.errors.filter((error) => error.id !== id) }));
+  },
+
+  reportError: (title: string, description: string) => {
+    set((state) => ({ errors: [...state.errors, { id: uuidv4(), title, description }].slice(-MAX_ERRORS) }));
+  },
 
-  setApiKey: (key: string) => set({ apiKey: key }),
-  
   setUserId: (id: string) => {
-    // When changing user ID, reset the conversations and current ID
+    const previous = get().userId;
+    if (id === previous) return;
+    
+    // Learning who is logged in for the first time needs no reset
+    if (!previous) {
+      set({ userId: id });
+      return;
+    }
+    
+    // A different user: drop everything loaded for the previous one. Their
+    // queued questions stay in IndexedDB until they sign in again.
+    outbox.clear();
     set({ 
       userId: id,
       conversations: [],
-      currentConversationId: null
+      sessions: [],
+      files: [],
+      filesContinuationToken: null,
+      currentConversationId: null,
+      requests: {},
+      isConnected: false
     });
   },
   
-  setApiHost: (host: string) => set({ apiHost: host }),
-  
   connect: async () => {
-    const { apiHost, apiKey, userId } = get();
-    set({ isLoading: true, connectionError: null });
+    set({ connectionError: null });
+    set(startRequest("connect"));
     
-    try {
-      // Test connection with health check
-      const healthCheck = await axios.get<HealthResponse>(
-        getApiUrl(apiHost, 'health'),
-        { 
-          headers: { 
-            "X-API-Key": apiKey,
-            // Add headers for CORS proxy
-            "X-Requested-With": "XMLHttpRequest" 
-          } 
-        }
+    // Test connection with health check
+    const healthCheck = await analyst.getHealth();
+    
+    if (!healthCheck.ok) {
+      console.error("Connection error:", healthCheck.error);
+      set({ 
+        isConnected: false, 
+        connectionError: `Failed to connect to the analyst API. ${describeAnalystError(healthCheck.error)}`
+      });
+      set(endRequest("connect", healthCheck.error));
+      return false;
+    }
+    
+    if (healthCheck.data.status === "healthy") {
+      // Stay in a chat that has questions queued while disconnected
+      const { currentConversationId } = get();
+      const hasQueued = Array.from(outbox.values()).some(
+        (entry) => entry.conversationId === currentConversationId
       );
       
-      if (healthCheck.data.status === "healthy") {
-        // When connecting, clear any existing conversation state
-        set({ 
-          isConnected: true, 
-          isLoading: false,
-          conversations: [], // Clear conversations
-          currentConversationId: null // Reset current conversation
-        });
-        
-        // Then load sessions for the new user
-        await get().loadSessions();
-        return true;
-      } else {
-        set({ 
-          isConnected: false, 
-          isLoading: false, 
-          connectionError: "API is not healthy" 
-        });
-        return false;
-      }
-    } catch (error) {
-      console.error("Connection error:", error);
+      // When connecting, clear any existing conversation state
+      set({ 
+        isConnected: true, 
+        conversations: [], // Clear conversations
+        currentConversationId: hasQueued ? currentConversationId : null
+      });
+      set(endRequest("connect"));
+      
+      // Then load sessions for the new user, put back the questions they
+      // left unsent (or queued while disconnected) and send them
+      await get().loadSessions();
+      await get().restoreOutbox();
+      await get().flushOutbox();
+      return true;
+    } else {
       set({ 
         isConnected: false, 
-        isLoading: false, 
-        connectionError: "Failed to connect to API. Possible CORS issue. Try using the app in a non-development environment." 
+        connectionError: "API is not healthy" 
       });
+      set(endRequest("connect", { kind: "http", status: 503, message: "API is not healthy" }));
       return false;
     }
   },
   
   loadSessions: async () => {
-    const { apiHost, apiKey, userId } = get();
-    set({ isLoading: true });
+    set(startRequest("loadSessions"));
     
-    try {
-      const response = await axios.get<SessionsResponse>(
-        getApiUrl(apiHost, `sessions?user_id=${userId}`),
-        { 
-          headers: { 
-            "X-API-Key": apiKey,
-            "X-Requested-With": "XMLHttpRequest"
-          } 
-        }
-      );
-      
-      if (response.data.sessions) {
-        set({ 
-          sessions: response.data.sessions,
-          isLoading: false 
-        });
-      }
-    } catch (error) {
-      console.error("Failed to load sessions:", error);
-      set({ isLoading: false });
+    const response = await analyst.listSessions();
+    
+    if (response.ok) {
+      set({ sessions: response.data.sessions });
+      set(endRequest("loadSessions"));
+    } else {
+      console.error("Failed to load sessions:", response.error);
+      const { error } = response;
+      set((state) => ({
+        ...endRequest("loadSessions", error)(state),
+        errors: withError(state.errors, "Couldn't load your conversations", error),
+      }));
     }
   },
   
   loadConversation: async (sessionId: string) => {
-    const { apiHost, apiKey, userId } = get();
-    set({ isLoading: true });
+    const requestKey = getRequestKey("loadConversation", sessionId);
+    // Opening a chat and the page noticing it isn't loaded both ask for it
+    if (get().requests[requestKey]?.status === "pending") return;
+    set(startRequest(requestKey));
+    
+    const response = await analyst.getConversation(sessionId);
+    
+    if (!response.ok) {
+      console.error("Failed to load conversation:", response.error);
+      const { error } = response;
+      set((state) => ({
+        ...endRequest(requestKey, error)(state),
+        errors: withError(state.errors, "Couldn't open that conversation", error),
+      }));
+      return;
+    }
+    
+    const { messages: apiMessages, metadata } = response.data;
+    // Ids must stay the same across reloads so the list keeps its bubbles
+    // mounted; without backend ids the position in the session is stable
+    const messages = apiMessages.map((msg, index) => ({
+      id: msg.id ?? `${sessionId}:${index}`,
+      role: msg.role,
+      content: msg.content,
+      timestamp: new Date(msg.timestamp ?? metadata.created_at)
+    }));
+    
+    const existing = get().conversations.find(c => c.id === sessionId);
+    // Questions that haven't gone out yet (or are being answered right now)
+    // aren't in the backend's history
+    const unsent = existing?.messages.filter(msg =>
+      msg.status === "queued" || msg.status === "sending" || msg.status === "failed" || msg.isStreaming
+    ) || [];
+    
+    const conversation: Conversation = {
+      id: sessionId,
+      title: metadata.title || "Conversation",
+      messages: [...messages, ...unsent],
+      // Documents attached before (stored in this browser) and since
+      attachments: mergeAttachments(
+        loadConversationAttachments(get().userId, sessionId),
+        existing?.attachments || []
+      ),
+      createdAt: new Date(metadata.created_at),
+      lastUpdatedAt: new Date(metadata.last_updated)
+    };
     
-    try {
-      const response = await axios.get<ConversationResponse>(
-        getApiUrl(apiHost, `conversation?user_id=${userId}&session_id=${sessionId}`),
-        { 
-          headers: { 
-            "X-API-Key": apiKey,
-            "X-Requested-With": "XMLHttpRequest"
-          } 
-        }
-      );
-      
-      if (response.data && response.data.messages) {
-        const messages = response.data.messages.map((msg: ApiMessage) => ({
-          role: msg.role,
-          content: msg.content,
-          timestamp: new Date(response.data.metadata.created_at)
-        }));
-        
-        const conversation: Conversation = {
-          id: sessionId,
-          title: response.data.metadata.title || "Conversation",
-          messages,
-          createdAt: new Date(response.data.metadata.created_at),
-          lastUpdatedAt: new Date(response.data.metadata.last_updated)
-        };
-        
     set((state) => ({
       conversations: [
-            ...state.conversations.filter(c => c.id !== sessionId),
-            conversation
-          ],
-          currentConversationId: sessionId,
-          isLoading: false
-        }));
-      }
-    } catch (error) {
-      console.error("Failed to load conversation:", error);
-      set({ isLoading: false });
-    }
+        ...state.conversations.filter(c => c.id !== sessionId),
+        conversation
+      ],
+      currentConversationId: sessionId,
+      ...endRequest(requestKey)(state),
+    }));
   },
 
-  sendMessage: async (content: string) => {
-    const { apiHost, apiKey, userId, currentConversationId } = get();
-    set({ isLoading: true });
+  sendMessage: async (content: string, attachments: MessageAttachment[] = []) => {
+    const id = get().addMessage(content, "user", attachments, "queued");
+    const conversation = get().conversations.find((conv) => conv.id === get().currentConversationId)!;
     
-    try {
-      // Create the payload with the message
-      const payload: {
-        question: string;
-        user_id: string;
-        session_id?: string;
-      } = {
-        question: content,
-        user_id: userId
-      };
+    // Every question goes through the outbox, so one that can't be sent right
+    // now (offline, session expired, another answer streaming) isn't lost
+    outbox.set(id, {
+      id,
+      userId: get().userId,
+      conversationId: conversation.id,
+      conversationTitle: conversation.title,
+      content,
+      attachments,
+      createdAt: Date.now(),
+      attempts: 0,
+      nextAttemptAt: 0,
+    });
+    
+    await saveOutboxEntry(outbox.get(id)!);
+    await get().flushOutbox();
+  },
+
+  deliverMessage: async (id: string) => {
+    const entry = outbox.get(id);
+    const conversation = get().conversations.find((conv) => conv.messages.some((msg) => msg.id === id));
+    if (!entry || !conversation) {
+      forgetOutboxEntry(id);
+      return "failed";
+    }
+    
+    const controller = new AbortController();
+    activeChatController = controller;
+    const requestKey = getRequestKey("sendMessage", conversation.id);
+    set({ isStreaming: true });
+    set(startRequest(requestKey));
+    
+    // Point the analyst at the documents attached anywhere in the conversation
+    const payload: ChatRequest = {
+      question: entry.content,
+      stream: true
+    };
+    if (conversation.attachments.length > 0) {
+      payload.file_keys = conversation.attachments.map((attachment) => attachment.s3Key);
+    }
+    
+    // Only include session_id if the conversation is a saved session with a valid UUID
+    if (get().sessions.some(s => s.session_id === conversation.id) &&
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(conversation.id)) {
+      payload.session_id = conversation.id;
+    }
+    
+    // An empty assistant bubble right after the question fills in as tokens arrive
+    const assistantId = uuidv4();
+    get().updateMessage(id, { status: "sending", error: undefined });
+    set((state) => ({
+      conversations: insertMessageAfter(state.conversations, id, {
+        id: assistantId,
+        role: "assistant",
+        content: "",
+        timestamp: new Date(),
+        isStreaming: true,
+      }),
+    }));
+    
+    let generated = "";
+    let finalResponse: ChatEvent | null = null;
+    
+    const removeAnswer = () => {
+      set((state) => ({
+        conversations: state.conversations.map((conv) => ({
+          ...conv,
+          messages: conv.messages.filter((msg) => msg.id !== assistantId),
+        })),
+      }));
+    };
+    
+    // Keep whatever was streamed so far and drop the bubble if nothing
+    // arrived. Unless the user stopped it, flag the question for a retry.
+    const endFailedReply = (error: AnalystError | null) => {
+      if (generated) {
+        get().updateMessage(assistantId, { content: generated, isStreaming: false });
+      } else {
+        removeAnswer();
+      }
+      forgetOutboxEntry(id);
       
-      // Only include session_id in the payload if we're in an existing session and it's a valid UUID
-      if (currentConversationId && 
-          get().sessions.some(s => s.session_id === currentConversationId) &&
-          /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(currentConversationId)) {
-        payload.session_id = currentConversationId;
-        console.log(`Continuing session ${currentConversationId}`);
+      if (error) {
+        get().updateMessage(id, { status: "failed", error: describeAnalystError(error) });
+        set((state) => ({ errors: withError(state.errors, "Your message wasn't answered", error) }));
       } else {
-        console.log("Starting new session or using regenerated ID");
+        get().updateMessage(id, { status: "sent" });
       }
+    };
+    
+    try {
+      const response = await analyst.chat(payload, controller.signal);
       
-      // Add message to UI immediately for better UX
-      get().addMessage(content, "user");
+      if (!response.ok) {
+        const { error } = response;
+        console.error("Failed to send message:", error);
+        
+        if (error.kind === "http" && error.status === 401) {
+          // Nothing reached the analyst; send it once the user has signed back in
+          removeAnswer();
+          get().updateMessage(id, { status: "queued" });
+          await saveOutboxEntry(entry);
+          return "expired";
+        }
+        
+        if (isTransientError(error) && entry.attempts + 1 < MAX_SEND_ATTEMPTS) {
+          removeAnswer();
+          const attempts = entry.attempts + 1;
+          const retried = { ...entry, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts) };
+          outbox.set(id, retried);
+          get().updateMessage(id, { status: "queued" });
+          await saveOutboxEntry(retried);
+          return "queued";
+        }
+        
+        endFailedReply(error);
+        return "failed";
+      }
       
-      console.log("Sending message with payload:", JSON.stringify(payload));
+      // The question has reached the analyst
+      get().updateMessage(id, { status: "sent" });
+      forgetOutboxEntry(id);
       
-      const response = await axios.post<ChatResponse>(
-        getApiUrl(apiHost, 'chat'),
-        payload,
-        { 
-          headers: { 
-            "X-API-Key": apiKey,
-            "Content-Type": "application/json",
-            "X-Requested-With": "XMLHttpRequest"
-          } 
+      await readChatStream(response.data, (chunk) => {
+        if (chunk.type === "token") {
+          generated += chunk.content;
+        } else {
+          const event = parseChatEvent(chunk.data);
+          if (!event.ok) {
+            console.warn("Ignoring unexpected chat event:", event.error.details);
+            return;
+          }
+          
+          if (event.data.token !== undefined) {
+            generated += event.data.token;
+          }
+          
+          // The final event (or a non-streaming reply) carries the full answer
+          if (event.data.generation !== undefined) {
+            generated = event.data.generation;
+            finalResponse = event.data;
+          }
         }
-      );
+        
+        get().updateMessage(assistantId, { content: generated });
+      });
       
-      console.log("Received response:", JSON.stringify(response.data));
+      const result = finalResponse as ChatEvent | null;
       
-      if (response.data.generation) {
-        // Update UI with assistant response
-        get().addMessage(response.data.generation, "assistant");
-        
-        const receivedSessionId = response.data.session_id;
-        
-        // If we received a session ID and either don't have one yet or it's different
-        if (receivedSessionId && (!currentConversationId || currentConversationId !== receivedSessionId)) {
-          
-          console.log(`Updating session ID from ${currentConversationId || 'none'} to ${receivedSessionId}`);
+      get().updateMessage(assistantId, {
+        content: generated,
+        isStreaming: false,
+        analysis: result ? normalizeAnalysis(result.db_search, result.chart) : null
+      });
+      
+      const receivedSessionId = result?.session_id;
+      
+      // A new conversation only gets its real ID from the backend's reply
+      if (receivedSessionId && receivedSessionId !== conversation.id) {
+        set((state) => {
+          // The conversation holding the streamed reply may have a temporary ID
+          const localId = state.conversations.find(c => 
+            c.messages.some(m => m.id === assistantId)
+          )?.id;
           
-          // Update the current conversation ID to match the backend's session_id
-          set((state) => {
-            // If this is updating an existing conversation
-            if (currentConversationId) {
-              const updatedConversations = state.conversations.map(c => 
-                c.id === currentConversationId ? { ...c, id: receivedSessionId } : c
-              );
-              
-              return {
-                conversations: updatedConversations,
-                currentConversationId: receivedSessionId
-              };
-            }
-            
-            return { currentConversationId: receivedSessionId };
-          });
+          if (!localId) {
+            return {};
+          }
           
-          // Refresh sessions from the backend
-          await get().loadSessions();
+          return {
+            conversations: state.conversations.map(c => 
+              c.id === localId ? { ...c, id: receivedSessionId } : c
+            ),
+            currentConversationId: state.currentConversationId === localId
+              ? receivedSessionId
+              : state.currentConversationId
+          };
+        });
+        
+        // Questions queued behind this one belong to the saved session now
+        for (const queued of outbox.values()) {
+          if (queued.conversationId === conversation.id) {
+            outbox.set(queued.id, { ...queued, conversationId: receivedSessionId });
+            await saveOutboxEntry(outbox.get(queued.id)!);
+          }
         }
+        
+        // Refresh sessions from the backend
+        await get().loadSessions();
+      }
+      
+      // Remember the documents of the saved session for the next time it's opened
+      const saved = receivedSessionId && get().conversations.find((conv) => conv.id === receivedSessionId);
+      if (saved && saved.attachments.length > 0) {
+        saveConversationAttachments(get().userId, receivedSessionId, saved.attachments);
       }
       
-      set({ isLoading: false });
+      return "sent";
     } catch (error) {
-      console.error("Failed to send message:", error);
-      set({ isLoading: false });
+      if (controller.signal.aborted) {
+        // Stopped by the user
+        endFailedReply(null);
+      } else {
+        // The connection dropped while the answer was streaming
+        console.error("Failed to send message:", error);
+        endFailedReply({
+          kind: "network",
+          message: error instanceof Error ? error.message : "Network error",
+        });
+      }
+      
+      return "failed";
+    } finally {
+      if (activeChatController === controller) {
+        activeChatController = null;
+      }
+      set({ isStreaming: false });
+      // Per-message states show how the question fared
+      set(endRequest(requestKey));
+      // Anything queued while this answer was streaming can go out now
+      void get().flushOutbox();
+    }
+  },
+
+  retryMessage: async (id: string) => {
+    const conversation = get().conversations.find((conv) => conv.messages.some((msg) => msg.id === id));
+    const message = conversation?.messages.find((msg) => msg.id === id);
+    if (!conversation || !message) return;
+    
+    // Drop any partial answer to the failed attempt
+    const next = conversation.messages[conversation.messages.indexOf(message) + 1];
+    if (next?.role === "assistant") {
+      set((state) => ({
+        conversations: state.conversations.map((conv) =>
+          conv.id === conversation.id
+            ? { ...conv, messages: conv.messages.filter((msg) => msg.id !== next.id) }
+            : conv
+        ),
+      }));
+    }
+    
+    outbox.set(id, {
+      id,
+      userId: get().userId,
+      conversationId: conversation.id,
+      conversationTitle: conversation.title,
+      content: message.content,
+      attachments: message.attachments ?? [],
+      createdAt: Date.now(),
+      attempts: 0,
+      nextAttemptAt: 0,
+    });
+    get().updateMessage(id, { status: "queued", error: undefined });
+    await saveOutboxEntry(outbox.get(id)!);
+    await get().flushOutbox();
+  },
+
+  restoreOutbox: async () => {
+    const { userId } = get();
+    if (!userId) return;
+    
+    const entries = await loadOutbox(userId);
+    // Another account signed in meanwhile
+    if (get().userId !== userId) return;
+    
+    for (const entry of entries) {
+      outbox.set(entry.id, entry);
+    }
+    // Include questions only kept in memory (no IndexedDB in this browser)
+    const pending = Array.from(outbox.values())
+      .filter((entry) => entry.userId === userId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    set((state) => ({ conversations: pending.reduce(placeOutboxEntry, state.conversations) }));
+    
+    await get().flushOutbox();
+  },
+
+  flushOutbox: async () => {
+    if (activeOutboxFlush) return activeOutboxFlush;
+    
+    activeOutboxFlush = (async () => {
+      // One question at a time, oldest first, so answers arrive in order
+      while (canSendNow(get())) {
+        const next = getDueOutboxEntry(get());
+        if (!next || await get().deliverMessage(next.id) === "expired") break;
+      }
+    })().finally(() => {
+      activeOutboxFlush = null;
+      scheduleOutboxRetry(get);
+    });
+    return activeOutboxFlush;
+  },
+
+  setOnline: (online: boolean) => {
+    set({ isOnline: online });
+    if (online) {
+      void get().flushOutbox();
     }
   },
 
+  stopStreaming: () => {
+    activeChatController?.abort();
+  },
+
   startNewConversation: () => {
     const newId = null; // We'll get the real ID from the API after first message
     set({ currentConversationId: newId });
   },
 
-  addMessage: (content: string, role: "user" | "assistant") => {
+  addMessage: (
+    content: string,
+    role: "user" | "assistant",
+    attachments: MessageAttachment[] = [],
+    status?: MessageStatus
+  ) => {
     const now = new Date();
     const message: Message = {
+      id: uuidv4(),
       role,
       content,
       timestamp: now,
+      ...(attachments.length > 0 && { attachments }),
+      ...(status && { status }),
     };
 
     set((state) => {
@@ -383,6 +899,7 @@ export const useChatStore = create<ChatStore>((set, get) => ({
               id: tempId,
               title: role === "user" ? createTitleFromContent(content) : "New conversation",
               messages: [message],
+              attachments,
               createdAt: now,
               lastUpdatedAt: now,
             },
@@ -411,6 +928,7 @@ export const useChatStore = create<ChatStore>((set, get) => ({
             ...conv,
               title: shouldUpdateTitle ? createTitleFromContent(content) : conv.title,
             messages: updatedMessages,
+              attachments: mergeAttachments(conv.attachments, attachments),
             lastUpdatedAt: now,
           };
         }
@@ -429,6 +947,7 @@ export const useChatStore = create<ChatStore>((set, get) => ({
               id: currentConversationId,
               title: session?.title || (role === "user" ? createTitleFromContent(content) : "New conversation"),
               messages: [message],
+              attachments,
               createdAt: session ? new Date(session.created_at) : now,
               lastUpdatedAt: now,
             },
@@ -437,16 +956,32 @@ export const useChatStore = create<ChatStore>((set, get) => ({
         };
       }
     });
+
+    return message.id;
+  },
+
+  updateMessage: (id: string, updates: Partial<Message>) => {
+    set((state) => ({
+      conversations: state.conversations.map((conv) =>
+        conv.messages.some((msg) => msg.id === id)
+          ? {
+              ...conv,
+              messages: conv.messages.map((msg) =>
+                msg.id === id ? { ...msg, ...updates } : msg
+              ),
+            }
+          : conv
+      ),
+    }));
   },
 
   setCurrentConversation: (id: string) => {
     const { conversations } = get();
     const conversation = conversations.find(c => c.id === id);
     
-    if (conversation) {
+    // Switch right away so the chat shows its own loading state
     set({ currentConversationId: id });
-    } else {
-      // If conversation isn't loaded yet, load it
+    if (!conversation) {
       get().loadConversation(id);
     }
   },
@@ -456,38 +991,43 @@ export const useChatStore = create<ChatStore>((set, get) => ({
   },
 
   deleteSession: async (sessionId: string) => {
-    const { apiHost, apiKey, userId } = get();
-    set({ isLoading: true });
+    const requestKey = getRequestKey("deleteSession", sessionId);
+    set(startRequest(requestKey));
+    
+    const response = await analyst.deleteSession(sessionId);
+    
+    if (!response.ok) {
+      console.error("Failed to delete session:", response.error);
+      const { error } = response;
+      set((state) => ({
+        ...endRequest(requestKey, error)(state),
+        errors: withError(state.errors, "Couldn't delete the conversation", error),
+      }));
+      return;
+    }
+    
+    // Nothing left to send questions to
+    for (const entry of Array.from(outbox.values())) {
+      if (entry.conversationId === sessionId) {
+        forgetOutboxEntry(entry.id);
+      }
+    }
+    removeConversationAttachments(get().userId, sessionId);
     
-    try {
-      await axios.delete(
-        getApiUrl(apiHost, `session?user_id=${userId}&session_id=${sessionId}`),
-        { 
-          headers: { 
-            "X-API-Key": apiKey,
-            "X-Requested-With": "XMLHttpRequest"
-          } 
-        }
-      );
-      
     set((state) => {
-        const newConversations = state.conversations.filter((conv) => conv.id !== sessionId);
-        const newSessions = state.sessions.filter((session) => session.session_id !== sessionId);
-        
+      const newConversations = state.conversations.filter((conv) => conv.id !== sessionId);
+      const newSessions = state.sessions.filter((session) => session.session_id !== sessionId);
+      
       return {
         conversations: newConversations,
-          sessions: newSessions,
+        sessions: newSessions,
         currentConversationId: 
-            state.currentConversationId === sessionId
-              ? null
+          state.currentConversationId === sessionId
+            ? null
             : state.currentConversationId,
-          isLoading: false
+        ...endRequest(requestKey)(state),
       };
     });
-    } catch (error) {
-      console.error("Failed to delete session:", error);
-      set({ isLoading: false });
-    }
   },
 
   addFile: (file) =>
@@ -507,5 +1047,113 @@ export const useChatStore = create<ChatStore>((set, get) => ({
       files: state.files.filter((file) => file.id !== id),
     })),
 
-  setLoading: (loading) => set({ isLoading: loading }),
+  loadFiles: async ({ append = false } = {}) => {
+    const { filesContinuationToken } = get();
+    set({ isLoadingFiles: true, filesError: null });
+    
+    try {
+      const { files, nextContinuationToken } = await listS3Files(
+        append ? filesContinuationToken : null
+      );
+      
+      set((state) => {
+        const stored: UploadedFile[] = files.map((file) => {
+          // Keep ingestion state already fetched for this key
+          const ingestion = state.files.find((existing) => existing.s3Key === file.key)?.ingestion;
+          return {
+            id: file.key,
+            name: file.name,
+            size: file.size,
+            status: ingestion?.status === "queued" || ingestion?.status === "processing"
+              ? "processing"
+              : "uploaded",
+            s3Key: file.key,
+            uploadedAt: file.lastModified,
+            contentType: file.contentType,
+            ingestion,
+          };
+        });
+
+        const listed = new Set(stored.map((file) => file.s3Key));
+        // Keep uploads started in this tab (they may not be on this page yet);
+        // a fresh load replaces entries from earlier listings
+        const kept = state.files.filter((file) =>
+          !(file.s3Key && listed.has(file.s3Key)) &&
+          (append || file.id !== file.s3Key)
+        );
+        
+        return {
+          files: [...kept, ...stored],
+          filesContinuationToken: nextContinuationToken,
+          isLoadingFiles: false,
+        };
+      });
+    } catch (error) {
+      console.error("Failed to load files:", error);
+      set({
+        isLoadingFiles: false,
+        filesError: error instanceof Error ? error.message : "Failed to load files",
+      });
+    }
+  },
+
+  checkIngestion: async (s3Key: string) => {
+    const response = await analyst.getIngestionStatus(s3Key);
+    
+    if (!response.ok) {
+      if (response.error.kind === "http" && response.error.status === 404) {
+        untrackedIngestionKeys.add(s3Key);
+        return;
+      }
+      // Transient failures are retried on the next poll
+      console.error(`Failed to check ingestion status for ${s3Key}:`, response.error);
+      return;
+    }
+    
+    const { status, error, updated_at } = response.data;
+    set((state) => ({
+      files: applyIngestion(state.files, s3Key, {
+        status,
+        error: error || undefined,
+        updatedAt: updated_at,
+      }),
+    }));
+  },
+
+  pollIngestion: async () => {
+    // Don't stack polls when the backend is slower than the poll interval
+    if (activeIngestionPoll) return activeIngestionPoll;
+    
+    const keys = new Set(
+      get().files.filter(needsIngestionCheck).map((file) => file.s3Key!)
+    );
+    activeIngestionPoll = Promise.all(Array.from(keys, (key) => get().checkIngestion(key)))
+      .then(() => undefined)
+      .finally(() => {
+        activeIngestionPoll = null;
+      });
+    return activeIngestionPoll;
+  },
+
+  retryIngestion: async (s3Key: string) => {
+    const response = await analyst.retryIngestion(s3Key);
+    
+    if (!response.ok) {
+      console.error(`Failed to retry ingestion for ${s3Key}:`, response.error);
+      const { error } = response;
+      set((state) => ({
+        files: applyIngestion(state.files, s3Key, {
+          status: "failed",
+          error: `Retry failed: ${describeAnalystError(error)}`,
+        }),
+      }));
+      return;
+    }
+    
+    untrackedIngestionKeys.delete(s3Key);
+    set((state) => ({
+      files: applyIngestion(state.files, s3Key, { status: "queued" }),
+    }));
+  },
+
 })); 
\ No newline at end of file
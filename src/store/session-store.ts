@@ -0,0 +1,15 @@
+import { create } from "zustand";
+
+// Tracks whether the login session ran out while the app was open, so any
+// page can show the sign-in prompt without losing what's on screen
+interface SessionStore {
+  isExpired: boolean;
+  markExpired: () => void;
+  clearExpired: () => void;
+}
+
+export const useSessionStore = create<SessionStore>((set) => ({
+  isExpired: false,
+  markExpired: () => set({ isExpired: true }),
+  clearExpired: () => set({ isExpired: false }),
+}));